@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "AccountKind" AS ENUM ('USER', 'SYSTEM');
+
+-- CreateEnum
+CREATE TYPE "JournalEntryType" AS ENUM ('INVOICE_SETTLEMENT', 'PAYMENT', 'FEE', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "PostingSide" AS ENUM ('DEBIT', 'CREDIT');
+
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "kind" "AccountKind" NOT NULL DEFAULT 'USER';
+
+-- CreateTable
+CREATE TABLE "journal_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT,
+    "type" "JournalEntryType" NOT NULL,
+    "memo" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "postings" (
+    "id" TEXT NOT NULL,
+    "journalEntryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "side" "PostingSide" NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "postings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "journal_entries_transactionId_idx" ON "journal_entries"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "postings_accountId_idx" ON "postings"("accountId");
+
+-- CreateIndex
+CREATE INDEX "postings_journalEntryId_idx" ON "postings"("journalEntryId");
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "lightning_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "postings" ADD CONSTRAINT "postings_journalEntryId_fkey" FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "postings" ADD CONSTRAINT "postings_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed system accounts
+INSERT INTO "accounts" ("id", "name", "description", "kind", "updatedAt") VALUES
+    ('system-node-asset', 'system:node_asset', 'Funds held by the LND node', 'SYSTEM', CURRENT_TIMESTAMP),
+    ('system-fees-expense', 'system:fees_expense', 'Routing fees paid by the node', 'SYSTEM', CURRENT_TIMESTAMP),
+    ('system-unassigned', 'system:unassigned', 'Received funds not yet attributed to an account', 'SYSTEM', CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
+
+-- Backfill journal entries for completed transactions
+INSERT INTO "journal_entries" ("id", "transactionId", "type", "memo", "createdAt")
+SELECT md5('journal:' || "id")::uuid::text,
+       "id",
+       CASE WHEN "type" = 'INCOMING' THEN 'INVOICE_SETTLEMENT'::"JournalEntryType" ELSE 'PAYMENT'::"JournalEntryType" END,
+       "memo",
+       "updatedAt"
+FROM "lightning_transactions"
+WHERE "status" = 'COMPLETE';
+
+INSERT INTO "postings" ("id", "journalEntryId", "accountId", "side", "amount", "createdAt")
+SELECT md5('posting:user:' || "id")::uuid::text,
+       md5('journal:' || "id")::uuid::text,
+       "accountId",
+       CASE WHEN "type" = 'INCOMING' THEN 'CREDIT'::"PostingSide" ELSE 'DEBIT'::"PostingSide" END,
+       "amount"::BIGINT,
+       "updatedAt"
+FROM "lightning_transactions"
+WHERE "status" = 'COMPLETE';
+
+INSERT INTO "postings" ("id", "journalEntryId", "accountId", "side", "amount", "createdAt")
+SELECT md5('posting:node:' || "id")::uuid::text,
+       md5('journal:' || "id")::uuid::text,
+       (SELECT "id" FROM "accounts" WHERE "name" = 'system:node_asset'),
+       CASE WHEN "type" = 'INCOMING' THEN 'DEBIT'::"PostingSide" ELSE 'CREDIT'::"PostingSide" END,
+       "amount"::BIGINT,
+       "updatedAt"
+FROM "lightning_transactions"
+WHERE "status" = 'COMPLETE';
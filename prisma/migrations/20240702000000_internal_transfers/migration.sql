@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "JournalEntryType" ADD VALUE 'TRANSFER';
+
+-- AlterTable
+ALTER TABLE "journal_entries" ADD COLUMN "transferId" TEXT;
+
+-- CreateTable
+CREATE TABLE "transfers" (
+    "id" TEXT NOT NULL,
+    "fromAccountId" TEXT NOT NULL,
+    "toAccountId" TEXT NOT NULL,
+    "amount" TEXT NOT NULL,
+    "memo" TEXT,
+    "idempotencyKey" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "journal_entries_transferId_key" ON "journal_entries"("transferId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfers_idempotencyKey_key" ON "transfers"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "transfers_fromAccountId_idx" ON "transfers"("fromAccountId");
+
+-- CreateIndex
+CREATE INDEX "transfers_toAccountId_idx" ON "transfers"("toAccountId");
+
+-- AddForeignKey
+ALTER TABLE "journal_entries" ADD CONSTRAINT "journal_entries_transferId_fkey" FOREIGN KEY ("transferId") REFERENCES "transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfers" ADD CONSTRAINT "transfers_fromAccountId_fkey" FOREIGN KEY ("fromAccountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfers" ADD CONSTRAINT "transfers_toAccountId_fkey" FOREIGN KEY ("toAccountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "lightning_transactions_rHash_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lightning_transactions_rHash_type_key" ON "lightning_transactions"("rHash", "type");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "lightning_transactions" ADD COLUMN "fee" TEXT NOT NULL DEFAULT '0',
+ADD COLUMN "feeReserve" TEXT NOT NULL DEFAULT '0';
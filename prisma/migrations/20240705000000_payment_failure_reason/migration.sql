@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "lightning_transactions" ADD COLUMN "failureReason" TEXT;
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "sync_cursors" (
+    "name" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_cursors_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "payment_destinations" (
+    "id" TEXT NOT NULL,
+    "pubkey" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_destinations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_destinations_pubkey_key" ON "payment_destinations"("pubkey");
+
+-- CreateIndex
+CREATE INDEX "payment_destinations_accountId_idx" ON "payment_destinations"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "payment_destinations" ADD CONSTRAINT "payment_destinations_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "webhooks" ADD COLUMN "previousSecret" TEXT,
+ADD COLUMN "previousSecretExpiresAt" TIMESTAMP(3);
+
+-- Webhooks created without a secret could be signed by anyone, so give them a random one
+UPDATE "webhooks"
+SET "secret" = 'whsec_' || replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+WHERE "secret" = '';
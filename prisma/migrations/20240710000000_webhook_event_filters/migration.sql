@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "webhooks" ALTER COLUMN "accountId" DROP NOT NULL,
+ADD COLUMN "events" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "event_log" (
+    "id" BIGSERIAL NOT NULL,
+    "event" TEXT NOT NULL,
+    "accountId" TEXT,
+    "data" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_log_accountId_id_idx" ON "event_log"("accountId", "id");
+
+-- CreateIndex
+CREATE INDEX "event_log_createdAt_idx" ON "event_log"("createdAt");
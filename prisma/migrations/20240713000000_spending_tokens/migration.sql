@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "spending_token_spends" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "rHash" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "spending_token_spends_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "spending_token_spends_tokenId_createdAt_idx" ON "spending_token_spends"("tokenId", "createdAt");
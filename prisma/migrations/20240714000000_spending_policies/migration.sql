@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "spending_policies" (
+    "accountId" TEXT NOT NULL,
+    "maxPaymentAmount" BIGINT,
+    "dailyLimit" BIGINT,
+    "weeklyLimit" BIGINT,
+    "maxPaymentsPerHour" INTEGER,
+    "allowedDestinations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "blockedDestinations" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "spending_policies_pkey" PRIMARY KEY ("accountId")
+);
+
+-- AddForeignKey
+ALTER TABLE "spending_policies" ADD CONSTRAINT "spending_policies_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
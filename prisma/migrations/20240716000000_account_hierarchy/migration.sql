@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "TransferKind" AS ENUM ('STANDARD', 'PARENT_DRAW');
+
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "parentId" TEXT,
+ADD COLUMN "parentSpendLimit" BIGINT;
+
+-- AlterTable
+ALTER TABLE "transfers" ADD COLUMN "kind" "TransferKind" NOT NULL DEFAULT 'STANDARD';
+
+-- CreateIndex
+CREATE INDEX "accounts_parentId_idx" ON "accounts"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "accounts" ADD CONSTRAINT "accounts_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "AccountStatus" AS ENUM ('ACTIVE', 'FROZEN', 'CLOSED');
+
+-- AlterEnum
+ALTER TYPE "TransferKind" ADD VALUE 'SWEEP';
+
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "status" "AccountStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN "closedAt" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "accounts" ADD COLUMN "externalId" TEXT,
+ADD COLUMN "metadata" JSONB,
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounts_externalId_key" ON "accounts"("externalId");
+
+-- CreateIndex
+CREATE INDEX "accounts_tags_idx" ON "accounts" USING GIN ("tags");
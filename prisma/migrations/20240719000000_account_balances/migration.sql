@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "account_balances" (
+    "accountId" TEXT NOT NULL,
+    "balance" BIGINT NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "account_balances_pkey" PRIMARY KEY ("accountId")
+);
+
+-- AddForeignKey
+ALTER TABLE "account_balances" ADD CONSTRAINT "account_balances_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill balances from the existing postings
+INSERT INTO "account_balances" ("accountId", "balance", "updatedAt")
+SELECT "accountId", SUM(CASE WHEN "side" = 'CREDIT' THEN "amount" ELSE -"amount" END), CURRENT_TIMESTAMP
+FROM "postings"
+GROUP BY "accountId";
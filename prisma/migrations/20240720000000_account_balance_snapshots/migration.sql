@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "account_balance_snapshots" (
+    "accountId" TEXT NOT NULL,
+    "closedAt" TIMESTAMP(3) NOT NULL,
+    "balance" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_balance_snapshots_pkey" PRIMARY KEY ("accountId","closedAt")
+);
+
+-- CreateIndex
+CREATE INDEX "account_balance_snapshots_closedAt_idx" ON "account_balance_snapshots"("closedAt");
+
+-- AddForeignKey
+ALTER TABLE "account_balance_snapshots" ADD CONSTRAINT "account_balance_snapshots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Historical balance queries sum an account's postings over a time range
+DROP INDEX "postings_accountId_idx";
+
+-- CreateIndex
+CREATE INDEX "postings_accountId_createdAt_idx" ON "postings"("accountId", "createdAt");
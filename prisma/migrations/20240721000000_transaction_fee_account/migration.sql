@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "lightning_transactions" ADD COLUMN "feeAccountId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "lightning_transactions_feeAccountId_idx" ON "lightning_transactions"("feeAccountId");
+
+-- AddForeignKey
+ALTER TABLE "lightning_transactions" ADD CONSTRAINT "lightning_transactions_feeAccountId_fkey" FOREIGN KEY ("feeAccountId") REFERENCES "accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
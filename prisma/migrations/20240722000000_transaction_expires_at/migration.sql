@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "lightning_transactions" ADD COLUMN "expiresAt" TIMESTAMP(3);
+
+-- Every invoice so far was created with LND's default expiry of one hour
+UPDATE "lightning_transactions" SET "expiresAt" = "createdAt" + INTERVAL '1 hour' WHERE "type" = 'INCOMING';
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "TransferKind" ADD VALUE 'PARENT_DRAW_RETURN';
+
+-- AlterTable
+ALTER TABLE "lightning_transactions" ADD COLUMN "parentDrawId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lightning_transactions_parentDrawId_key" ON "lightning_transactions"("parentDrawId");
+
+-- AddForeignKey
+ALTER TABLE "lightning_transactions" ADD CONSTRAINT "lightning_transactions_parentDrawId_fkey" FOREIGN KEY ("parentDrawId") REFERENCES "transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
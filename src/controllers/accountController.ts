@@ -1,10 +1,122 @@
 import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess, getAccessibleAccountIds } from '../middleware/authMiddleware';
 import { ValidationError, NotFoundError } from '../utils/errors';
 import { DbService } from '../services/dbService';
+import lndService from '../services/lndService';
+import { SYSTEM_ACCOUNT_PREFIX } from '../services/ledgerService';
+import { AccountSortField, AccountTreeNode } from '../models/interfaces';
 
 const dbService = new DbService();
 
+// Limits on client-supplied account details
+const MAX_EXTERNAL_ID_LENGTH = 255;
+const MAX_METADATA_BYTES = 16 * 1024;
+const MAX_TAGS = 50;
+const MAX_TAG_LENGTH = 64;
+
+const ACCOUNT_SORT_FIELDS: AccountSortField[] = ['name', 'createdAt', 'balance'];
+
+/**
+ * Parse the optional asOf query parameter of a balance request
+ */
+function parseAsOf(value: unknown): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const asOf = typeof value === 'string' && value.trim() !== '' ? new Date(value) : null;
+  if (!asOf || isNaN(asOf.getTime())) {
+    throw new ValidationError('Invalid asOf', { asOf: 'asOf must be a timestamp such as 2024-07-31T23:59:59Z' });
+  }
+
+  if (asOf.getTime() > Date.now()) {
+    throw new ValidationError('Invalid asOf', { asOf: 'asOf cannot be in the future' });
+  }
+
+  return asOf;
+}
+
+/**
+ * Check an account name from the request body
+ */
+function validateName(name: unknown): string {
+  if (!name || typeof name !== 'string') {
+    throw new ValidationError('Account name is required', { name: 'Account name is required' });
+  }
+
+  if (name.startsWith(SYSTEM_ACCOUNT_PREFIX)) {
+    throw new ValidationError('Account name is reserved', { name: `Names starting with "${SYSTEM_ACCOUNT_PREFIX}" are reserved for system accounts` });
+  }
+
+  return name;
+}
+
+/**
+ * Parse an optional external ID from the request body; null clears it
+ */
+function parseExternalId(value: unknown): string | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== 'string' || value === '' || value.length > MAX_EXTERNAL_ID_LENGTH) {
+    throw new ValidationError('Invalid externalId', { externalId: `externalId must be a string of 1 to ${MAX_EXTERNAL_ID_LENGTH} characters` });
+  }
+
+  return value;
+}
+
+/**
+ * Parse optional metadata from the request body; null clears it
+ */
+function parseMetadata(value: unknown): Record<string, unknown> | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('Invalid metadata', { metadata: 'metadata must be a JSON object' });
+  }
+
+  if (Buffer.byteLength(JSON.stringify(value)) > MAX_METADATA_BYTES) {
+    throw new ValidationError('Invalid metadata', { metadata: `metadata must be at most ${MAX_METADATA_BYTES} bytes of JSON` });
+  }
+
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parse an optional list of tags from the request body
+ */
+function parseTags(value: unknown): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.length > MAX_TAGS ||
+      value.some(tag => typeof tag !== 'string' || tag.trim() === '' || tag.length > MAX_TAG_LENGTH)) {
+    throw new ValidationError('Invalid tags', { tags: `tags must be an array of at most ${MAX_TAGS} strings of 1 to ${MAX_TAG_LENGTH} characters` });
+  }
+
+  return Array.from(new Set((value as string[]).map(tag => tag.trim())));
+}
+
+/**
+ * Parse an optional limit on what a sub-account may draw from its parent; null removes it
+ */
+function parseParentSpendLimit(value: unknown): bigint | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (!/^\d+$/.test(String(value))) {
+    throw new ValidationError('Invalid parentSpendLimit', { parentSpendLimit: 'parentSpendLimit must be a whole number of satoshis' });
+  }
+
+  return BigInt(String(value));
+}
+
 /**
  * Account controller for handling account-related requests
  */
@@ -13,27 +125,93 @@ export class AccountController {
    * Create a new account
    */
   createAccount = asyncHandler(async (req: Request, res: Response) => {
-    const { name, description } = req.body as { name: string; description?: string };
-    
-    if (!name) {
-      throw new ValidationError('Account name is required', { name: 'Account name is required' });
+    const { description, parentId } = req.body as {
+      description?: string;
+      parentId?: string;
+    };
+    const name = validateName(req.body.name);
+
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      throw new ValidationError('Invalid parentId', { parentId: 'parentId must be an account ID' });
+    }
+
+    const spendLimit = parseParentSpendLimit(req.body.parentSpendLimit);
+    if (spendLimit !== undefined && spendLimit !== null && !parentId) {
+      throw new ValidationError('parentSpendLimit requires a parent', { parentSpendLimit: 'parentSpendLimit can only be set on a sub-account' });
+    }
+
+    // A key restricted to some accounts may only create sub-accounts under them
+    if (parentId) {
+      assertAccountAccess(req, parentId);
     }
 
     const account = await dbService.createAccount({
       name,
-      description
+      description,
+      externalId: parseExternalId(req.body.externalId) || undefined,
+      metadata: parseMetadata(req.body.metadata) || undefined,
+      tags: parseTags(req.body.tags),
+      parentId: parentId || undefined,
+      parentSpendLimit: spendLimit ?? undefined
     });
 
     res.status(201).json({ success: true, data: account });
   });
 
+  /**
+   * Update an account's name, description, external ID, metadata, tags or parent spend limit.
+   * Fields left out of the body are not changed.
+   */
+  updateAccount = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const { description } = req.body as { description?: string | null };
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new ValidationError('Invalid description', { description: 'description must be a string' });
+    }
+
+    const account = await dbService.updateAccount(id, {
+      name: req.body.name !== undefined ? validateName(req.body.name) : undefined,
+      description,
+      externalId: parseExternalId(req.body.externalId),
+      metadata: parseMetadata(req.body.metadata),
+      tags: parseTags(req.body.tags),
+      parentSpendLimit: parseParentSpendLimit(req.body.parentSpendLimit)
+    });
+
+    res.json({ success: true, data: account });
+  });
+
   /**
    * Get all accounts
    */
   getAllAccounts = asyncHandler(async (req: Request, res: Response) => {
     const page = parseInt(req.query.page as string || '1');
     const limit = parseInt(req.query.limit as string || '20');
-    const accounts = await dbService.getAllAccounts(limit, page);
+    // ?tag= may be repeated or comma-separated; accounts must have every tag
+    const tags = ([] as string[]).concat((req.query.tag as string | string[] | undefined) || [])
+      .flatMap(tag => String(tag).split(','))
+      .map(tag => tag.trim())
+      .filter(tag => tag !== '');
+
+    const sort = (req.query.sort as string || 'createdAt') as AccountSortField;
+    if (!ACCOUNT_SORT_FIELDS.includes(sort)) {
+      throw new ValidationError('Invalid sort', { sort: `sort must be one of: ${ACCOUNT_SORT_FIELDS.join(', ')}` });
+    }
+
+    // Names read best A to Z; dates and balances newest or largest first
+    const order = req.query.order as string || (sort === 'name' ? 'asc' : 'desc');
+    if (order !== 'asc' && order !== 'desc') {
+      throw new ValidationError('Invalid order', { order: 'order must be asc or desc' });
+    }
+
+    const accounts = await dbService.getAllAccounts(limit, page, {
+      accountIds: getAccessibleAccountIds(req),
+      tags,
+      externalId: req.query.externalId ? String(req.query.externalId) : undefined,
+      search: req.query.search ? String(req.query.search) : undefined
+    }, { field: sort, order });
     res.json({ success: true, data: accounts });
   });
 
@@ -42,6 +220,7 @@ export class AccountController {
    */
   getAccountById = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
+    assertAccountAccess(req, id);
     
     const account = await dbService.getAccount(id);
     
@@ -52,21 +231,61 @@ export class AccountController {
     res.json({ success: true, data: account });
   });
 
+  /**
+   * Get an account with all of its sub-accounts, nested, with each account's own balance
+   * and the balance rolled up from the accounts below it
+   */
+  getAccountTree = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const tree = await dbService.getAccountTree(id);
+
+    if (!tree) {
+      throw new NotFoundError(`Account with ID ${id} not found`);
+    }
+
+    // The tree shows the balances of every sub-account, so the key must have access to all of them
+    const assertTreeAccess = (node: AccountTreeNode) => {
+      assertAccountAccess(req, node.id);
+      node.children.forEach(assertTreeAccess);
+    };
+    assertTreeAccess(tree);
+
+    res.json({ success: true, data: tree });
+  });
+
+  /**
+   * Get account by the ID it has in another system
+   */
+  getAccountByExternalId = asyncHandler(async (req: Request, res: Response) => {
+    const { externalId } = req.params;
+
+    const account = await dbService.getAccountByExternalId(externalId);
+
+    if (!account) {
+      throw new NotFoundError(`Account with external ID ${externalId} not found`);
+    }
+
+    assertAccountAccess(req, account.id);
+
+    res.json({ success: true, data: account });
+  });
+
   /**
    * Get account by name
    */
   getAccountByName = asyncHandler(async (req: Request, res: Response) => {
     const { name } = req.params;
     
-    // Note: Since there's no explicit getAccountByName method, we need to implement alternative logic
-    // For example, get all accounts and filter by name
-    const allAccounts = await dbService.getAllAccounts();
-    const account = allAccounts.accounts.find(acc => acc.name === name);
+    const account = await dbService.getAccountByName(name);
     
     if (!account) {
       throw new NotFoundError(`Account with name ${name} not found`);
     }
     
+    assertAccountAccess(req, account.id);
+    
     res.json({ success: true, data: account });
   });
 
@@ -77,6 +296,7 @@ export class AccountController {
     const { id } = req.params;
     const page = parseInt(req.query.page as string || '1');
     const limit = parseInt(req.query.limit as string || '20');
+    assertAccountAccess(req, id);
     
     // First, check if the account exists
     const account = await dbService.getAccount(id);
@@ -96,20 +316,80 @@ export class AccountController {
   });
 
   /**
-   * Get account balance
+   * Get account balance, or with ?asOf= the settled balance at a past point in time
    */
   getAccountBalance = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
+    assertAccountAccess(req, id);
     
-    const accountSummary = await dbService.getAccount(id);
+    const asOf = parseAsOf(req.query.asOf);
+    if (asOf) {
+      const balance = await dbService.getAccountBalanceAsOf(id, asOf);
+      
+      if (balance === null) {
+        throw new NotFoundError(`Account with ID ${id} not found`);
+      }
+      
+      res.json({ 
+        success: true, 
+        data: { balance, settled: balance, asOf: asOf.toISOString() }
+      });
+      return;
+    }
     
-    if (!accountSummary) {
+    const balances = await dbService.getAccountBalances(id);
+    
+    if (!balances) {
       throw new NotFoundError(`Account with ID ${id} not found`);
     }
     
     res.json({ 
       success: true, 
-      data: { balance: accountSummary.balance }
+      data: { balance: balances.settled, ...balances }
     });
   });
-} 
\ No newline at end of file
+
+  /**
+   * Freeze an account so it can receive but not spend
+   */
+  freezeAccount = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const account = await dbService.setAccountFrozen(id, true);
+
+    res.json({ success: true, data: account });
+  });
+
+  /**
+   * Let a frozen account spend again
+   */
+  unfreezeAccount = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const account = await dbService.setAccountFrozen(id, false);
+
+    res.json({ success: true, data: account });
+  });
+
+  /**
+   * Close an account. An account with a balance must name an account to sweep it to.
+   */
+  closeAccount = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { sweepToAccountId } = (req.body || {}) as { sweepToAccountId?: string };
+    assertAccountAccess(req, id);
+
+    if (sweepToAccountId !== undefined && sweepToAccountId !== null) {
+      if (typeof sweepToAccountId !== 'string' || sweepToAccountId === '') {
+        throw new ValidationError('Invalid sweepToAccountId', { sweepToAccountId: 'sweepToAccountId must be an account ID' });
+      }
+      assertAccountAccess(req, sweepToAccountId);
+    }
+
+    const result = await lndService.closeAccount(id, sweepToAccountId || undefined);
+
+    res.json({ success: true, data: result });
+  });
+}
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { DbService } from '../services/dbService';
+import { apiKeyService, API_KEY_SCOPES } from '../services/apiKeyService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+const dbService = new DbService();
+
+/**
+ * API key controller for issuing and revoking scoped API keys
+ */
+export class ApiKeyController {
+  /**
+   * Create an API key. The key is only included in this response.
+   */
+  createApiKey = asyncHandler(async (req: Request, res: Response) => {
+    // Keys restricted to some accounts must not be able to mint unrestricted ones
+    assertAccountAccess(req, null);
+
+    const { name, scopes, accountIds = [], expiresAt } = req.body as {
+      name: string;
+      scopes: unknown;
+      accountIds?: unknown;
+      expiresAt?: string;
+    };
+
+    if (!name) {
+      throw new ValidationError('Name is required', { name: 'Name is required' });
+    }
+
+    if (!apiKeyService.isValidScopeList(scopes)) {
+      throw new ValidationError('Invalid scopes', {
+        scopes: `scopes must be a non-empty array containing any of: ${Object.values(API_KEY_SCOPES).join(', ')}`
+      });
+    }
+
+    if (!Array.isArray(accountIds) || accountIds.some(accountId => typeof accountId !== 'string')) {
+      throw new ValidationError('Invalid accountIds', { accountIds: 'accountIds must be an array of account IDs' });
+    }
+
+    for (const accountId of accountIds as string[]) {
+      if (!await dbService.getAccount(accountId)) {
+        throw new NotFoundError(`Account with ID ${accountId} not found`);
+      }
+    }
+
+    let expiry: Date | null = null;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        throw new ValidationError('Invalid expiresAt', { expiresAt: 'expiresAt must be a date in the future' });
+      }
+    }
+
+    const { key, apiKey } = await apiKeyService.createKey(name, scopes, accountIds as string[], expiry);
+
+    res.status(201).json({ success: true, data: { ...apiKey, key } });
+  });
+
+  /**
+   * Get API keys (revoked keys are included with ?includeRevoked=true)
+   */
+  getApiKeys = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+
+    const apiKeys = await dbService.getApiKeys(req.query.includeRevoked === 'true');
+
+    res.json({ success: true, data: apiKeys });
+  });
+
+  /**
+   * Get an API key by ID
+   */
+  getApiKeyById = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+
+    const { id } = req.params;
+    const apiKey = await dbService.getApiKeyById(id);
+
+    if (!apiKey) {
+      throw new NotFoundError(`API key with ID ${id} not found`);
+    }
+
+    res.json({ success: true, data: apiKey });
+  });
+
+  /**
+   * Revoke an API key
+   */
+  revokeApiKey = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+
+    const { id } = req.params;
+    const apiKey = await dbService.revokeApiKey(id);
+
+    res.json({ success: true, data: apiKey });
+  });
+}
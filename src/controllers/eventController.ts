@@ -0,0 +1,154 @@
+import { Request, Response } from 'express';
+import { DbService } from '../services/dbService';
+import { eventLogService } from '../services/eventLogService';
+import { EventLogEntrySummary } from '../models/interfaces';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const dbService = new DbService();
+
+// Comment line sent to keep idle connections open through proxies
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// How long clients should wait before reconnecting
+const RETRY_MS = 5000;
+
+// Events read from the log per query while replaying
+const REPLAY_PAGE_SIZE = 100;
+
+/**
+ * Read the ID of the last event the client saw, from the Last-Event-ID header
+ * or, for clients that cannot set headers, the lastEventId query parameter
+ */
+function getLastEventId(req: Request): string | null {
+  const header = req.headers['last-event-id'];
+  const value = typeof header === 'string' && header !== '' ? header : req.query.lastEventId;
+
+  if (value === undefined || value === '') {
+    return null;
+  }
+
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new ValidationError('Invalid Last-Event-ID', { lastEventId: 'Last-Event-ID must be an event ID' });
+  }
+
+  return value;
+}
+
+/**
+ * Format an event log entry as an SSE message
+ */
+function formatEvent(entry: EventLogEntrySummary): string {
+  const data = JSON.stringify({
+    event: entry.event,
+    data: entry.data,
+    timestamp: entry.createdAt
+  });
+
+  return `id: ${entry.id}\nevent: ${entry.event}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Event controller for streaming account activity as Server-Sent Events
+ */
+export class EventController {
+  /**
+   * Stream events for every account
+   */
+  streamEvents = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+    const lastEventId = getLastEventId(req);
+
+    await this.stream(req, res, null, lastEventId);
+  });
+
+  /**
+   * Stream events for one account
+   */
+  streamAccountEvents = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+    const lastEventId = getLastEventId(req);
+
+    const account = await dbService.getAccount(id);
+
+    if (!account) {
+      throw new NotFoundError(`Account with ID ${id} not found`);
+    }
+
+    await this.stream(req, res, id, lastEventId);
+  });
+
+  /**
+   * Replay the events logged after lastEventId, then send new events as they happen
+   * until the client disconnects
+   */
+  private async stream(req: Request, res: Response, accountId: string | null, lastEventId: string | null): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    // Hold live events back until the replay has caught up, so they arrive in order
+    let replaying = lastEventId !== null;
+    let buffered: EventLogEntrySummary[] = [];
+
+    const unsubscribe = eventLogService.subscribe(accountId, (entry: EventLogEntrySummary) => {
+      if (replaying) {
+        buffered.push(entry);
+      } else {
+        res.write(formatEvent(entry));
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // The request stream closes as soon as it has been read, so watch the response instead
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    if (lastEventId === null) {
+      return;
+    }
+
+    try {
+      let afterId = lastEventId;
+
+      while (!closed) {
+        const entries = await eventLogService.getEventsAfter(afterId, accountId, REPLAY_PAGE_SIZE);
+
+        for (const entry of entries) {
+          res.write(formatEvent(entry));
+          // Anything replayed from the log must not be sent again from the buffer
+          buffered = buffered.filter(pending => pending.id !== entry.id);
+        }
+
+        if (entries.length < REPLAY_PAGE_SIZE) {
+          break;
+        }
+        afterId = entries[entries.length - 1].id;
+      }
+
+      for (const entry of buffered) {
+        res.write(formatEvent(entry));
+      }
+    } catch (error) {
+      logger.error(`Error replaying events after ${lastEventId}:`, error);
+      res.end();
+    } finally {
+      buffered = [];
+      replaying = false;
+    }
+  }
+}
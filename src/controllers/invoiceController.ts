@@ -1,23 +1,18 @@
 import { Request, Response } from 'express';
 import { DbService } from '../services/dbService';
-import lndService, { LndService } from '../services/lndService';
+import lndService, { lndUtils } from '../services/lndService';
+import { spendingTokenService } from '../services/spendingTokenService';
+import { TransactionSummary } from '../models/interfaces';
 import { asyncHandler } from '../middleware/errorHandler';
-import { ValidationError } from '../utils/errors';
+import { assertAccountAccess, getAccessibleAccountIds } from '../middleware/authMiddleware';
+import { TransactionType, TransactionStatus } from '@prisma/client';
+import { ValidationError, NotFoundError } from '../utils/errors';
 
-// Use environment variables safely
-const LND_REST_HOST = process.env.LND_REST_HOST || 'localhost:8080';
-const LND_MACAROON_PATH = process.env.LND_MACAROON_PATH || '';
-const LND_TLS_CERT_PATH = process.env.LND_TLS_CERT_PATH || '';
-const USER_IDENTIFIER_PATTERN = process.env.USER_IDENTIFIER_PATTERN;
+// Default and longest time a wait request is held open
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 60;
+const MAX_WAIT_TIMEOUT_SECONDS = 300;
 
 const dbService = new DbService();
-const lndServiceInstance = new LndService(
-  LND_REST_HOST,
-  LND_MACAROON_PATH,
-  LND_TLS_CERT_PATH,
-  dbService,
-  USER_IDENTIFIER_PATTERN
-);
 
 /**
  * Invoice controller for handling invoice-related requests
@@ -42,7 +37,9 @@ export class InvoiceController {
       throw new ValidationError('Amount is required', { amount: 'Amount is required' });
     }
 
-    const invoice = await lndServiceInstance.createInvoiceForAccount(accountId, amount, memo || '');
+    assertAccountAccess(req, accountId);
+
+    const invoice = await lndService.createInvoiceForAccount(accountId, amount, memo || '');
     res.status(201).json({ success: true, data: invoice });
   });
 
@@ -50,9 +47,11 @@ export class InvoiceController {
    * Process an outgoing payment
    */
   processOutgoingPayment = asyncHandler(async (req: Request, res: Response) => {
-    const { paymentRequest, accountId } = req.body as { 
+    const { paymentRequest, accountId, maxFeeSats, feeLimitPercent } = req.body as { 
       paymentRequest: string; 
       accountId: string;
+      maxFeeSats?: string | number;
+      feeLimitPercent?: number;
     };
     
     if (!paymentRequest) {
@@ -63,7 +62,60 @@ export class InvoiceController {
       throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
     }
 
-    const payment = await lndServiceInstance.sendPaymentFromAccount(accountId, paymentRequest);
+    if (maxFeeSats !== undefined && feeLimitPercent !== undefined) {
+      throw new ValidationError('Provide either maxFeeSats or feeLimitPercent, not both', { 
+        maxFeeSats: 'Cannot be combined with feeLimitPercent' 
+      });
+    }
+
+    if (maxFeeSats !== undefined && !/^\d+$/.test(String(maxFeeSats))) {
+      throw new ValidationError('maxFeeSats must be a non-negative whole number', { maxFeeSats: 'Must be a non-negative whole number' });
+    }
+
+    if (feeLimitPercent !== undefined && 
+        (typeof feeLimitPercent !== 'number' || feeLimitPercent < 0 || feeLimitPercent > 100)) {
+      throw new ValidationError('feeLimitPercent must be a number between 0 and 100', { feeLimitPercent: 'Must be between 0 and 100' });
+    }
+
+    assertAccountAccess(req, accountId);
+
+    const feeOptions = {
+      maxFeeSats: maxFeeSats !== undefined ? String(maxFeeSats) : undefined,
+      feeLimitPercent
+    };
+
+    // Payments made with a spending token must fit the token's per-payment and daily limits,
+    // counting the most the payment can cost including its routing fee
+    let releaseSpend: (() => Promise<void>) | null = null;
+    const spendingToken = req.apiKey?.spendingToken;
+    if (spendingToken) {
+      const decoded = await lndService.decodePaymentRequest(paymentRequest);
+      const amount = BigInt(decoded.num_satoshis || 0);
+      if (amount <= BigInt(0)) {
+        throw new ValidationError('Spending tokens cannot pay invoices without an amount', { 
+          paymentRequest: 'Must specify an amount' 
+        });
+      }
+
+      const maxFee = BigInt(lndService.calculateFeeLimit(amount.toString(), feeOptions));
+      releaseSpend = await spendingTokenService.reservePayment(
+        spendingToken,
+        accountId,
+        lndUtils.toHexString(decoded.payment_hash),
+        amount + maxFee
+      );
+    }
+
+    let payment;
+    try {
+      payment = await lndService.sendPaymentFromAccount(accountId, paymentRequest, feeOptions);
+    } catch (error) {
+      // Payments that were never recorded must not use up the token's budget
+      if (releaseSpend) {
+        await releaseSpend();
+      }
+      throw error;
+    }
     res.status(201).json({ success: true, data: payment });
   });
 
@@ -77,10 +129,58 @@ export class InvoiceController {
       throw new ValidationError('Payment hash is required', { rHash: 'Payment hash is required' });
     }
 
-    const status = await lndServiceInstance.checkInvoiceStatus(rHash);
+    // Keys restricted to some accounts can only check invoices we have recorded for those accounts
+    if (getAccessibleAccountIds(req)) {
+      const transaction = await dbService.getTransactionByRHash(rHash, TransactionType.INCOMING);
+      if (!transaction) {
+        throw new NotFoundError(`Invoice with payment hash ${rHash} not found`);
+      }
+      assertAccountAccess(req, transaction.accountId);
+    }
+
+    const status = await lndService.checkInvoiceStatus(rHash);
     res.json({ success: true, data: status });
   });
 
+  /**
+   * Hold the request open until an invoice is settled or canceled, or the timeout passes,
+   * and return its transaction. A transaction that is still PENDING means the wait timed out.
+   */
+  waitForInvoice = asyncHandler(async (req: Request, res: Response) => {
+    const { rHash } = req.params as { rHash: string };
+    const timeout = req.query.timeout === undefined ? DEFAULT_WAIT_TIMEOUT_SECONDS : Number(req.query.timeout);
+    
+    if (!Number.isInteger(timeout) || timeout < 1 || timeout > MAX_WAIT_TIMEOUT_SECONDS) {
+      throw new ValidationError('Invalid timeout', { 
+        timeout: `timeout must be a whole number of seconds between 1 and ${MAX_WAIT_TIMEOUT_SECONDS}` 
+      });
+    }
+    
+    const transaction = await dbService.getTransactionByRHash(rHash, TransactionType.INCOMING);
+    
+    if (!transaction) {
+      throw new NotFoundError(`Invoice with payment hash ${rHash} not found`);
+    }
+    
+    assertAccountAccess(req, transaction.accountId);
+    
+    if (transaction.status !== TransactionStatus.PENDING) {
+      return res.json({ success: true, data: transaction });
+    }
+    
+    // Stop waiting, and drop the invoice callback, if the client goes away
+    const disconnected = new AbortController();
+    res.on('close', () => disconnected.abort());
+    
+    const result = await lndService.waitForInvoice(rHash, timeout * 1000, disconnected.signal);
+    
+    if (disconnected.signal.aborted) {
+      return;
+    }
+    
+    res.json({ success: true, data: result });
+  });
+
   /**
    * Get an invoice by payment hash
    */
@@ -88,6 +188,10 @@ export class InvoiceController {
     const { rHash } = req.params as { rHash: string };
     const invoice = await dbService.getInvoiceByRHash(rHash);
     
+    if (invoice) {
+      assertAccountAccess(req, invoice.accountId);
+    }
+    
     res.json({ success: true, data: invoice });
   });
 
@@ -97,6 +201,10 @@ export class InvoiceController {
   getInvoicesByUserIdentifier = asyncHandler(async (req: Request, res: Response) => {
     const { userIdentifier } = req.params as { userIdentifier: string };
     const invoices = await dbService.getInvoicesByUserIdentifier(userIdentifier);
-    res.json({ success: true, data: invoices });
+    const accountIds = getAccessibleAccountIds(req);
+    res.json({ 
+      success: true, 
+      data: accountIds ? invoices.filter((invoice: TransactionSummary) => accountIds.includes(invoice.accountId)) : invoices 
+    });
   });
 } 
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { DbService } from '../services/dbService';
+import { reconciliationService } from '../services/reconciliationService';
+import { ValidationError } from '../utils/errors';
+
+const dbService = new DbService();
+
+/**
+ * Ledger controller for handling journal-related requests
+ */
+export class LedgerController {
+  /**
+   * Verify that every journal entry balances
+   */
+  verifyLedger = asyncHandler(async (req: Request, res: Response) => {
+    // The ledger covers every account
+    assertAccountAccess(req, null);
+    
+    const result = await dbService.verifyLedger();
+    res.json({ success: true, data: result });
+  });
+
+  /**
+   * Check the maintained account balances against the sum of every account's postings
+   */
+  verifyBalances = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+    
+    const result = await dbService.verifyBalances();
+    res.json({ success: true, data: result });
+  });
+
+  /**
+   * Rewrite maintained account balances that do not match their postings
+   */
+  repairBalances = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+    
+    const repaired = await dbService.repairBalances();
+    res.json({ success: true, data: { repaired } });
+  });
+
+  /**
+   * Compare LND's invoice and payment history with our transactions, optionally repairing differences
+   */
+  reconcile = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+    
+    const { repair } = req.body || {};
+    
+    if (repair !== undefined && typeof repair !== 'boolean') {
+      throw new ValidationError('Invalid repair flag', { repair: 'repair must be a boolean' });
+    }
+    
+    const report = await reconciliationService.run(Boolean(repair));
+    res.json({ success: true, data: report });
+  });
+
+  /**
+   * Get the report of the most recent reconciliation sweep
+   */
+  getLastReconciliation = asyncHandler(async (req: Request, res: Response) => {
+    assertAccountAccess(req, null);
+    
+    res.json({ success: true, data: reconciliationService.getLastReport() });
+  });
+}
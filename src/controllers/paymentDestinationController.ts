@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess, getAccessibleAccountIds } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../utils/errors';
+import { DbService } from '../services/dbService';
+
+const dbService = new DbService();
+
+/**
+ * Payment destination controller for mapping node pubkeys to the accounts that pay them
+ */
+export class PaymentDestinationController {
+  /**
+   * Map a destination pubkey to an account
+   */
+  createPaymentDestination = asyncHandler(async (req: Request, res: Response) => {
+    const { pubkey, accountId, description } = req.body as {
+      pubkey: string;
+      accountId: string;
+      description?: string;
+    };
+
+    if (!pubkey || !/^(02|03)[0-9a-f]{64}$/i.test(pubkey)) {
+      throw new ValidationError('Invalid pubkey', { pubkey: 'Pubkey must be a 33-byte compressed public key in hex' });
+    }
+
+    if (!accountId) {
+      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
+    }
+
+    assertAccountAccess(req, accountId);
+
+    const destination = await dbService.createPaymentDestination({
+      pubkey: pubkey.toLowerCase(),
+      accountId,
+      description
+    });
+
+    res.status(201).json({ success: true, data: destination });
+  });
+
+  /**
+   * Get payment destination mappings (optionally filtered by accountId)
+   */
+  getPaymentDestinations = asyncHandler(async (req: Request, res: Response) => {
+    const { accountId } = req.query as { accountId?: string };
+
+    if (accountId) {
+      assertAccountAccess(req, accountId);
+    }
+
+    const destinations = await dbService.getPaymentDestinations(accountId);
+    const accountIds = getAccessibleAccountIds(req);
+
+    res.json({
+      success: true,
+      data: accountIds ? destinations.filter(destination => accountIds.includes(destination.accountId)) : destinations
+    });
+  });
+
+  /**
+   * Delete a payment destination mapping
+   */
+  deletePaymentDestination = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const destination = await dbService.getPaymentDestinationById(id);
+    if (destination) {
+      assertAccountAccess(req, destination.accountId);
+    }
+
+    const success = await dbService.deletePaymentDestination(id);
+
+    if (!success) {
+      throw new NotFoundError(`Payment destination with ID ${id} not found`);
+    }
+
+    res.json({ success: true, message: `Payment destination ${id} deleted successfully` });
+  });
+}
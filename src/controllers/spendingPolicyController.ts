@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { DbService } from '../services/dbService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../utils/errors';
+import { SpendingPolicyInput } from '../models/interfaces';
+
+const dbService = new DbService();
+
+// Compressed secp256k1 public key, as used for Lightning node IDs
+const PUBKEY_PATTERN = /^(02|03)[0-9a-f]{64}$/;
+
+/**
+ * Parse an optional limit from the request body; null clears the limit
+ */
+function parseLimit(value: unknown, field: string): bigint | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  if (!/^\d+$/.test(String(value)) || BigInt(String(value)) <= BigInt(0)) {
+    throw new ValidationError(`Invalid ${field}`, { [field]: `${field} must be a positive whole number or null` });
+  }
+
+  return BigInt(String(value));
+}
+
+/**
+ * Parse an optional list of destination node pubkeys from the request body
+ */
+function parsePubkeys(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some(pubkey => typeof pubkey !== 'string' || !PUBKEY_PATTERN.test(pubkey.toLowerCase()))) {
+    throw new ValidationError(`Invalid ${field}`, { [field]: `${field} must be an array of 66 character hex node pubkeys` });
+  }
+
+  return Array.from(new Set((value as string[]).map(pubkey => pubkey.toLowerCase())));
+}
+
+/**
+ * Spending policy controller for limiting what an account can pay out
+ */
+export class SpendingPolicyController {
+  /**
+   * Get an account's spending policy
+   */
+  getSpendingPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    if (!await dbService.getAccount(id)) {
+      throw new NotFoundError(`Account with ID ${id} not found`);
+    }
+
+    const policy = await dbService.getSpendingPolicy(id);
+    if (!policy) {
+      throw new NotFoundError(`Account ${id} has no spending policy`);
+    }
+
+    res.json({ success: true, data: policy });
+  });
+
+  /**
+   * Create or update an account's spending policy. Omitted fields are left unchanged.
+   */
+  updateSpendingPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const body = req.body as Record<string, unknown>;
+    const input: SpendingPolicyInput = {
+      maxPaymentAmount: parseLimit(body.maxPaymentAmount, 'maxPaymentAmount'),
+      dailyLimit: parseLimit(body.dailyLimit, 'dailyLimit'),
+      weeklyLimit: parseLimit(body.weeklyLimit, 'weeklyLimit'),
+      allowedDestinations: parsePubkeys(body.allowedDestinations, 'allowedDestinations'),
+      blockedDestinations: parsePubkeys(body.blockedDestinations, 'blockedDestinations')
+    };
+
+    const maxPaymentsPerHour = parseLimit(body.maxPaymentsPerHour, 'maxPaymentsPerHour');
+    if (maxPaymentsPerHour !== undefined && maxPaymentsPerHour !== null && maxPaymentsPerHour > BigInt(2147483647)) {
+      throw new ValidationError('Invalid maxPaymentsPerHour', { maxPaymentsPerHour: 'maxPaymentsPerHour is too large' });
+    }
+    input.maxPaymentsPerHour = maxPaymentsPerHour === undefined || maxPaymentsPerHour === null
+      ? maxPaymentsPerHour
+      : Number(maxPaymentsPerHour);
+
+    if (!await dbService.getAccount(id)) {
+      throw new NotFoundError(`Account with ID ${id} not found`);
+    }
+
+    const policy = await dbService.upsertSpendingPolicy(id, input);
+
+    res.json({ success: true, data: policy });
+  });
+
+  /**
+   * Remove an account's spending policy
+   */
+  deleteSpendingPolicy = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    assertAccountAccess(req, id);
+
+    const deleted = await dbService.deleteSpendingPolicy(id);
+    if (!deleted) {
+      throw new NotFoundError(`Account ${id} has no spending policy`);
+    }
+
+    res.json({ success: true, message: `Spending policy for account ${id} deleted successfully` });
+  });
+}
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { DbService } from '../services/dbService';
+import { spendingTokenService, SPENDING_TOKEN_ROUTES } from '../services/spendingTokenService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+const dbService = new DbService();
+
+/**
+ * Parse an optional positive whole number of satoshis from the request body
+ */
+function parseSats(value: unknown, field: string): bigint | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!/^\d+$/.test(String(value)) || BigInt(String(value)) <= BigInt(0)) {
+    throw new ValidationError(`Invalid ${field}`, { [field]: `${field} must be a positive whole number of satoshis` });
+  }
+
+  return BigInt(String(value));
+}
+
+/**
+ * Spending token controller for minting delegated spending tokens
+ */
+export class SpendingTokenController {
+  /**
+   * Mint a token that can spend from one account within the given limits
+   */
+  createSpendingToken = asyncHandler(async (req: Request, res: Response) => {
+    const { accountId, maxAmount, dailyBudget, routes, expiresAt } = req.body as {
+      accountId: string;
+      maxAmount?: string | number;
+      dailyBudget?: string | number;
+      routes?: unknown;
+      expiresAt?: string;
+    };
+
+    if (!accountId) {
+      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
+    }
+
+    assertAccountAccess(req, accountId);
+
+    if (routes !== undefined && (!Array.isArray(routes) || routes.some(route => typeof route !== 'string' || !SPENDING_TOKEN_ROUTES.includes(route)))) {
+      throw new ValidationError('Invalid routes', {
+        routes: `routes must be an array containing any of: ${SPENDING_TOKEN_ROUTES.join(', ')}`
+      });
+    }
+
+    let expiry: Date | undefined;
+    if (expiresAt !== undefined && expiresAt !== null) {
+      expiry = new Date(expiresAt);
+      if (isNaN(expiry.getTime()) || expiry <= new Date()) {
+        throw new ValidationError('Invalid expiresAt', { expiresAt: 'expiresAt must be a date in the future' });
+      }
+    }
+
+    const account = await dbService.getAccount(accountId);
+    if (!account) {
+      throw new NotFoundError(`Account with ID ${accountId} not found`);
+    }
+
+    const token = spendingTokenService.mint({
+      accountId,
+      maxAmount: parseSats(maxAmount, 'maxAmount'),
+      dailyBudget: parseSats(dailyBudget, 'dailyBudget'),
+      routes: routes as string[] | undefined,
+      expiresAt: expiry
+    });
+
+    res.status(201).json({ success: true, data: token });
+  });
+}
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { TransactionType, TransactionStatus } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess, getAccessibleAccountIds } from '../middleware/authMiddleware';
 import { ValidationError, NotFoundError } from '../utils/errors';
 import { DbService } from '../services/dbService';
 
@@ -27,6 +28,8 @@ export class TransactionController {
       throw new ValidationError('Account ID is required');
     }
 
+    assertAccountAccess(req, accountId);
+
     if (!rHash) {
       throw new ValidationError('Payment hash (rHash) is required');
     }
@@ -58,7 +61,7 @@ export class TransactionController {
     const page = parseInt(req.query.page as string || '1');
     const limit = parseInt(req.query.limit as string || '20');
     
-    const result = await dbService.getAllTransactions(limit, page);
+    const result = await dbService.getAllTransactions(limit, page, getAccessibleAccountIds(req));
     
     res.json({
       success: true,
@@ -72,28 +75,57 @@ export class TransactionController {
    */
   getTransactionByRHash = asyncHandler(async (req: Request, res: Response) => {
     const { rHash } = req.params;
+    const { type } = req.query as { type?: TransactionType };
+    
+    if (type && !Object.values(TransactionType).includes(type)) {
+      throw new ValidationError('Transaction type must be INCOMING or OUTGOING');
+    }
     
-    const transaction = await dbService.getTransactionByRHash(rHash);
+    const transaction = await dbService.getTransactionByRHash(rHash, type);
     
     if (!transaction) {
       throw new NotFoundError(`Transaction with payment hash ${rHash} not found`);
     }
     
+    assertAccountAccess(req, transaction.accountId);
+    
     res.json({ success: true, data: transaction });
   });
 
+  /**
+   * Get the journal entries posted for a transaction
+   */
+  getTransactionEntries = asyncHandler(async (req: Request, res: Response) => {
+    const { rHash } = req.params;
+    
+    // Keys restricted to some accounts only see the entries of those accounts' transactions,
+    // not those of the other side of a payment settled between two accounts
+    const entries = await dbService.getJournalEntriesByRHash(rHash, getAccessibleAccountIds(req));
+    
+    res.json({ success: true, data: entries });
+  });
+
   /**
    * Update transaction status
    */
   updateTransactionStatus = asyncHandler(async (req: Request, res: Response) => {
     const { rHash } = req.params;
-    const { status } = req.body;
+    const { status, type } = req.body;
     
     if (!status || !Object.values(TransactionStatus).includes(status)) {
       throw new ValidationError('Valid transaction status (PENDING, COMPLETE, or FAILED) is required');
     }
     
-    const transaction = await dbService.updateTransactionStatus(rHash, status);
+    if (type && !Object.values(TransactionType).includes(type)) {
+      throw new ValidationError('Transaction type must be INCOMING or OUTGOING');
+    }
+    
+    const existing = await dbService.getTransactionByRHash(rHash, type);
+    if (existing) {
+      assertAccountAccess(req, existing.accountId);
+    }
+    
+    const transaction = await dbService.updateTransactionStatus(rHash, status, type);
     
     res.json({ success: true, data: transaction });
   });
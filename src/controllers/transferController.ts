@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
+import { DbService } from '../services/dbService';
+import lndService from '../services/lndService';
+import { apiKeyService } from '../services/apiKeyService';
+
+const dbService = new DbService();
+
+/**
+ * Transfer controller for handling internal account-to-account transfers
+ */
+export class TransferController {
+  /**
+   * Create a new transfer between two accounts
+   */
+  createTransfer = asyncHandler(async (req: Request, res: Response) => {
+    const { fromAccountId, toAccountId, amount, memo, idempotencyKey } = req.body as {
+      fromAccountId: string;
+      toAccountId: string;
+      amount: string | number;
+      memo?: string;
+      idempotencyKey?: string;
+    };
+
+    if (!fromAccountId) {
+      throw new ValidationError('Source account ID is required', { fromAccountId: 'Source account ID is required' });
+    }
+
+    if (!toAccountId) {
+      throw new ValidationError('Destination account ID is required', { toAccountId: 'Destination account ID is required' });
+    }
+
+    if (fromAccountId === toAccountId) {
+      throw new ValidationError('Cannot transfer to the same account', { toAccountId: 'Must differ from fromAccountId' });
+    }
+
+    const amountString = amount !== undefined ? String(amount) : '';
+    if (!/^\d+$/.test(amountString) || BigInt(amountString) <= BigInt(0)) {
+      throw new ValidationError('Amount must be a positive whole number of satoshis', { amount: 'Amount must be a positive whole number of satoshis' });
+    }
+
+    // Only the source account spends, so a restricted key may pay into any account
+    assertAccountAccess(req, fromAccountId);
+
+    const { transfer, created } = await lndService.transferBetweenAccounts({
+      fromAccountId,
+      toAccountId,
+      amount: BigInt(amountString).toString(),
+      memo,
+      idempotencyKey
+    });
+
+    res.status(created ? 201 : 200).json({ success: true, data: transfer });
+  });
+
+  /**
+   * Get a transfer by ID
+   */
+  getTransferById = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const transfer = await dbService.getTransferById(id);
+
+    if (!transfer) {
+      throw new NotFoundError(`Transfer with ID ${id} not found`);
+    }
+
+    if (req.apiKey && ![transfer.fromAccountId, transfer.toAccountId].some(accountId => apiKeyService.canAccessAccount(req.apiKey!, accountId))) {
+      throw new ForbiddenError(`API key does not have access to transfer ${id}`);
+    }
+
+    res.json({ success: true, data: transfer });
+  });
+
+  /**
+   * Get transfers for an account
+   */
+  getTransfers = asyncHandler(async (req: Request, res: Response) => {
+    const { accountId } = req.query as { accountId?: string };
+    const page = parseInt(req.query.page as string || '1');
+    const limit = parseInt(req.query.limit as string || '20');
+
+    if (!accountId) {
+      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
+    }
+
+    assertAccountAccess(req, accountId);
+
+    const result = await dbService.getTransfersByAccountId(accountId, limit, page);
+
+    res.json({
+      success: true,
+      data: result.transfers,
+      pagination: result.pagination
+    });
+  });
+}
@@ -1,26 +1,67 @@
 import { Request, Response } from 'express';
+import { WebhookDeliveryStatus } from '@prisma/client';
 import { DbService } from '../services/dbService';
+import { webhookDeliveryService, WEBHOOK_EVENTS } from '../services/webhookDeliveryService';
+import { generateWebhookSecret } from '../utils/webhookSignature';
 import { asyncHandler } from '../middleware/errorHandler';
+import { assertAccountAccess } from '../middleware/authMiddleware';
 import { ValidationError, NotFoundError } from '../utils/errors';
+import { WebhookSummary } from '../models/interfaces';
 
 const dbService = new DbService();
 
+// Shortest secret accepted from callers; generated secrets are 64 hex characters
+const MIN_SECRET_LENGTH = 32;
+
+// Longest time an old secret stays valid after a rotation
+const MAX_ROTATION_OVERLAP_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Check that a list of event types only contains events we send
+ */
+function validateEvents(events: unknown): void {
+  if (!Array.isArray(events) || events.some(event => typeof event !== 'string' || !WEBHOOK_EVENTS.includes(event))) {
+    throw new ValidationError('Invalid events', { 
+      events: `events must be an array containing any of: ${WEBHOOK_EVENTS.join(', ')}` 
+    });
+  }
+}
+
+/**
+ * Get a webhook, checking that the request's API key may manage it
+ */
+async function getAccessibleWebhook(req: Request, id: string): Promise<WebhookSummary> {
+  const webhook = await dbService.getWebhookById(id);
+  
+  if (!webhook) {
+    throw new NotFoundError(`Webhook with ID ${id} not found`);
+  }
+  
+  assertAccountAccess(req, webhook.accountId);
+  
+  return webhook;
+}
+
 /**
  * Webhook controller for handling webhook-related requests
  */
 export class WebhookController {
   /**
-   * Get all webhooks (optionally filtered by accountId)
+   * Get the webhooks for an account, or the all-accounts webhooks with ?allAccounts=true
    */
   getWebhooks = asyncHandler(async (req: Request, res: Response) => {
-    const { accountId } = req.query as { accountId?: string };
+    const { accountId, allAccounts } = req.query as { accountId?: string; allAccounts?: string };
     
     let webhooks;
     if (accountId) {
+      assertAccountAccess(req, accountId);
       webhooks = await dbService.getWebhooksByAccountId(accountId);
+    } else if (allAccounts === 'true') {
+      assertAccountAccess(req, null);
+      webhooks = await dbService.getAllAccountsWebhooks();
     } else {
       // To prevent accidentally exposing all webhooks, this requires an accountId
-      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
+      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required, or set allAccounts=true' });
     }
     
     res.json({ success: true, data: webhooks });
@@ -31,11 +72,7 @@ export class WebhookController {
    */
   getWebhookById = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params as { id: string };
-    const webhook = await dbService.getWebhookById(id);
-    
-    if (!webhook) {
-      throw new NotFoundError(`Webhook with ID ${id} not found`);
-    }
+    const webhook = await getAccessibleWebhook(req, id);
     
     res.json({ success: true, data: webhook });
   });
@@ -44,15 +81,29 @@ export class WebhookController {
    * Create a new webhook
    */
   createWebhook = asyncHandler(async (req: Request, res: Response) => {
-    const { accountId, url, secret, enabled } = req.body as { 
-      accountId: string;
+    const { accountId, allAccounts, url, secret, events, enabled } = req.body as { 
+      accountId?: string;
+      allAccounts?: boolean;
       url: string; 
       secret?: string;
+      events?: string[];
       enabled?: boolean;
     };
     
-    if (!accountId) {
-      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required' });
+    if (accountId && allAccounts) {
+      throw new ValidationError('Cannot combine accountId and allAccounts', { 
+        allAccounts: 'A webhook is either for one account or for all accounts' 
+      });
+    }
+    
+    if (!accountId && allAccounts !== true) {
+      throw new ValidationError('Account ID is required', { accountId: 'Account ID is required, or set allAccounts to true' });
+    }
+    
+    assertAccountAccess(req, accountId || null);
+    
+    if (events !== undefined) {
+      validateEvents(events);
     }
     
     if (!url) {
@@ -66,10 +117,15 @@ export class WebhookController {
       throw new ValidationError('Invalid URL format', { url: 'Invalid URL format' });
     }
     
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)) {
+      throw new ValidationError('Secret is too short', { secret: `Secret must be at least ${MIN_SECRET_LENGTH} characters; omit it to have one generated` });
+    }
+    
     const webhook = await dbService.createWebhook({
-      accountId,
+      accountId: accountId || null,
       url,
-      secret: secret || '',
+      secret: secret || generateWebhookSecret(),
+      events: events ? Array.from(new Set(events)) : [],
       enabled
     });
     
@@ -81,19 +137,28 @@ export class WebhookController {
    */
   updateWebhook = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params as { id: string };
-    const { url, secret, enabled } = req.body as { 
+    const { url, secret, events, enabled } = req.body as { 
       url?: string; 
       secret?: string;
+      events?: string[];
       enabled?: boolean;
     };
     
     // At least one field must be updated
-    if (url === undefined && secret === undefined && enabled === undefined) {
+    if (url === undefined && secret === undefined && events === undefined && enabled === undefined) {
       throw new ValidationError('At least one field must be updated', { 
-        fields: 'At least one of: url, secret, enabled must be provided' 
+        fields: 'At least one of: url, secret, events, enabled must be provided' 
       });
     }
     
+    if (events !== undefined) {
+      validateEvents(events);
+    }
+    
+    if (secret !== undefined && (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH)) {
+      throw new ValidationError('Secret is too short', { secret: `Secret must be at least ${MIN_SECRET_LENGTH} characters; use rotate-secret to generate one` });
+    }
+    
     // Validate URL if provided
     if (url) {
       try {
@@ -103,9 +168,12 @@ export class WebhookController {
       }
     }
     
+    await getAccessibleWebhook(req, id);
+    
     const updateData: Record<string, any> = {};
     if (url !== undefined) updateData.url = url;
     if (secret !== undefined) updateData.secret = secret;
+    if (events !== undefined) updateData.events = Array.from(new Set(events));
     if (enabled !== undefined) updateData.enabled = enabled;
     
     const webhook = await dbService.updateWebhook(id, updateData);
@@ -113,11 +181,38 @@ export class WebhookController {
     res.json({ success: true, data: webhook });
   });
 
+  /**
+   * Generate a new secret for a webhook. Deliveries are signed with both the old and new secret
+   * until the overlap window ends, so receivers can switch over without rejecting anything.
+   */
+  rotateWebhookSecret = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const { overlapSeconds = 24 * 60 * 60 } = (req.body || {}) as { overlapSeconds?: number };
+    
+    if (!Number.isInteger(overlapSeconds) || overlapSeconds < 0 || overlapSeconds > MAX_ROTATION_OVERLAP_SECONDS) {
+      throw new ValidationError('Invalid overlap window', { 
+        overlapSeconds: `overlapSeconds must be a whole number between 0 and ${MAX_ROTATION_OVERLAP_SECONDS}` 
+      });
+    }
+    
+    await getAccessibleWebhook(req, id);
+    
+    const webhook = await dbService.rotateWebhookSecret(
+      id,
+      generateWebhookSecret(),
+      new Date(Date.now() + overlapSeconds * 1000)
+    );
+    
+    res.json({ success: true, data: webhook });
+  });
+
   /**
    * Delete a webhook
    */
   deleteWebhook = asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params as { id: string };
+    await getAccessibleWebhook(req, id);
+    
     const success = await dbService.deleteWebhook(id);
     
     if (!success) {
@@ -126,4 +221,47 @@ export class WebhookController {
     
     res.json({ success: true, message: `Webhook ${id} deleted successfully` });
   });
+
+  /**
+   * Get the deliveries for a webhook (optionally filtered by status)
+   */
+  getWebhookDeliveries = asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params as { id: string };
+    const { status } = req.query as { status?: string };
+    const page = parseInt(req.query.page as string || '1');
+    const limit = parseInt(req.query.limit as string || '20');
+    
+    if (status && !Object.values(WebhookDeliveryStatus).includes(status as WebhookDeliveryStatus)) {
+      throw new ValidationError('Invalid status', { 
+        status: `Status must be one of: ${Object.values(WebhookDeliveryStatus).join(', ')}` 
+      });
+    }
+    
+    await getAccessibleWebhook(req, id);
+    
+    const result = await dbService.getWebhookDeliveries(id, status as WebhookDeliveryStatus | undefined, limit, page);
+    
+    res.json({
+      success: true,
+      data: result.deliveries,
+      pagination: result.pagination
+    });
+  });
+
+  /**
+   * Send a delivery again, including one that has been dead-lettered
+   */
+  redeliverWebhookDelivery = asyncHandler(async (req: Request, res: Response) => {
+    const { id, deliveryId } = req.params as { id: string; deliveryId: string };
+    await getAccessibleWebhook(req, id);
+    
+    const delivery = await dbService.getWebhookDeliveryById(deliveryId);
+    if (!delivery || delivery.webhookId !== id) {
+      throw new NotFoundError(`Delivery with ID ${deliveryId} not found for webhook ${id}`);
+    }
+    
+    const result = await webhookDeliveryService.redeliver(deliveryId);
+    
+    res.json({ success: true, data: result });
+  });
 } 
\ No newline at end of file
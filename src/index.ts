@@ -1,19 +1,40 @@
+import http from 'http';
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import { PrismaClient } from '@prisma/client';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
-import { apiKeyAuth } from './middleware/authMiddleware';
+import { apiKeyAuth, validateAuthConfig } from './middleware/authMiddleware';
 import { AppError } from './utils/errors';
 import { createLndMonitorService } from './services/lndMonitorService';
 import lndService from './services/lndService';
+import { reconciliationService } from './services/reconciliationService';
+import { webhookDeliveryService } from './services/webhookDeliveryService';
+import { eventLogService } from './services/eventLogService';
+import { idempotencyService } from './services/idempotencyService';
+import { balanceVerificationService } from './services/balanceVerificationService';
+import { balanceSnapshotService } from './services/balanceSnapshotService';
 import { logger } from './utils/logger';
 import { Request, Response, NextFunction } from 'express';
 
 // Load environment variables
 dotenv.config();
 
+// Refuse to start with authentication settings that would leave the API open
+try {
+  validateAuthConfig();
+} catch (error: unknown) {
+  logger.error(`Refusing to start: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Refuse to start if routing fees would be charged to an account that cannot pay them
+const feeSponsorChecked = lndService.validateFeeSponsor().catch((error: unknown) => {
+  logger.error(`Refusing to start: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
+
 // Initialize Express app
 const app = express();
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
@@ -25,15 +46,45 @@ const prisma = new PrismaClient();
 const lndMonitor = createLndMonitorService(prisma);
 lndMonitor.start();
 
+// Retry webhook deliveries that failed
+webhookDeliveryService.start();
+
+// Prune old events from the SSE event log
+eventLogService.start();
+
+// Prune expired Idempotency-Keys
+idempotencyService.start();
+
+// Subscribe to invoice updates from LND
+lndService.startInvoiceSubscription();
+
+// Pick up outgoing payments that were still in flight when the server last stopped
+lndService.resumePaymentTracking();
+
+// Periodically reconcile our transactions against LND's full history
+const reconcileIntervalMinutes = parseInt(process.env.RECONCILE_INTERVAL_MINUTES || '0', 10);
+if (reconcileIntervalMinutes > 0) {
+  reconciliationService.start(reconcileIntervalMinutes * 60 * 1000, process.env.RECONCILE_AUTO_REPAIR === 'true');
+}
+
+// Periodically check the maintained account balances against the postings
+const balanceVerifyIntervalMinutes = parseInt(process.env.BALANCE_VERIFY_INTERVAL_MINUTES || '60', 10);
+if (balanceVerifyIntervalMinutes > 0) {
+  balanceVerificationService.start(balanceVerifyIntervalMinutes * 60 * 1000, process.env.BALANCE_AUTO_REPAIR === 'true');
+}
+
+// Write daily closing balance snapshots, checking for newly closed days on this interval
+const balanceSnapshotIntervalMinutes = parseInt(process.env.BALANCE_SNAPSHOT_INTERVAL_MINUTES || '60', 10);
+if (balanceSnapshotIntervalMinutes > 0) {
+  balanceSnapshotService.start(balanceSnapshotIntervalMinutes * 60 * 1000);
+}
+
 // Middleware
 app.use(cors());
 app.use(express.json());
 
-// Authentication middleware
-app.use(apiKeyAuth);
-
-// Routes
-app.use('/api', routes);
+// Routes, all behind API key authentication; /health below stays public
+app.use('/api', apiKeyAuth, routes);
 
 // Health check
 app.get('/health', async (_req, res) => {
@@ -73,9 +124,12 @@ app.use(notFoundHandler);
 // Error handling middleware
 app.use(errorHandler);
 
-// Start server
-const server = app.listen(port, () => {
-  logger.info(`Server running on port ${port}`);
+// Start server once the configuration has been checked against the database
+const server = http.createServer(app);
+feeSponsorChecked.then(() => {
+  server.listen(port, () => {
+    logger.info(`Server running on port ${port}`);
+  });
 });
 
 // Handle graceful shutdown
@@ -88,6 +142,28 @@ function shutdown() {
   // Stop the LND monitor
   lndMonitor.stop();
   
+  // Close the invoice subscription and payment tracking streams
+  lndService.stopInvoiceSubscription();
+  lndService.stopPaymentTracking();
+  
+  // Stop the reconciliation job
+  reconciliationService.stop();
+  
+  // Stop verifying account balances
+  balanceVerificationService.stop();
+  
+  // Stop writing balance snapshots
+  balanceSnapshotService.stop();
+  
+  // Stop retrying webhook deliveries
+  webhookDeliveryService.stop();
+  
+  // Stop pruning the event log
+  eventLogService.stop();
+  
+  // Stop pruning idempotency keys
+  idempotencyService.stop();
+  
   server.close(() => {
     logger.info('HTTP server closed');
     
@@ -1,32 +1,173 @@
+import * as crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger';
+import { ForbiddenError } from '../utils/errors';
+import { ApiKeyPrincipal } from '../models/interfaces';
+import { apiKeyService, ApiKeyScope, API_KEY_SCOPES } from '../services/apiKeyService';
+import { spendingTokenService } from '../services/spendingTokenService';
+import { SPENDING_TOKEN_PREFIX } from '../utils/spendingToken';
+
+/**
+ * The API_KEY environment variable acts as an admin key for every account
+ */
+const ENV_API_KEY_PRINCIPAL: ApiKeyPrincipal = {
+  id: null,
+  name: 'API_KEY',
+  scopes: [API_KEY_SCOPES.ADMIN],
+  accountIds: []
+};
+
+/**
+ * Authentication modes, set with AUTH_MODE:
+ * - required: every API request needs a valid key (the default)
+ * - disabled-dev-only: no authentication; refused when NODE_ENV is production
+ */
+export const AUTH_MODES = ['required', 'disabled-dev-only'] as const;
+
+export type AuthMode = typeof AUTH_MODES[number];
+
+// Value shipped in example configs, never accepted as a real key
+const PLACEHOLDER_API_KEY = 'change-me-to-a-secure-api-key';
+
+/**
+ * Gets the configured authentication mode
+ */
+export function getAuthMode(): AuthMode {
+  return (process.env.AUTH_MODE || 'required') as AuthMode;
+}
+
+/**
+ * Gets the API_KEY environment variable, or null if it is unset or still the placeholder
+ */
+function getEnvApiKey(): string | null {
+  const apiKey = process.env.API_KEY?.trim();
+  return apiKey && apiKey !== PLACEHOLDER_API_KEY ? apiKey : null;
+}
+
+/**
+ * Checks the authentication settings at startup. Throws if the server must not start:
+ * an unknown AUTH_MODE, authentication disabled in production, or production without an API_KEY.
+ */
+export function validateAuthConfig(): void {
+  const mode = getAuthMode();
+  const production = process.env.NODE_ENV === 'production';
+
+  if (!AUTH_MODES.includes(mode)) {
+    throw new Error(`Invalid AUTH_MODE "${mode}"; expected one of: ${AUTH_MODES.join(', ')}`);
+  }
+
+  if (mode === 'disabled-dev-only') {
+    if (production) {
+      throw new Error('AUTH_MODE=disabled-dev-only cannot be used when NODE_ENV is production');
+    }
+    logger.warn('API authentication is disabled (AUTH_MODE=disabled-dev-only). Do not expose this server.');
+    return;
+  }
+
+  if (!getEnvApiKey()) {
+    if (production) {
+      throw new Error('API_KEY must be set when NODE_ENV is production');
+    }
+    logger.warn('API_KEY is not set; only scoped API keys will be accepted.');
+  }
+}
+
+/**
+ * Compares two keys in constant time. Hashing first makes the inputs the same length,
+ * so neither the contents nor the length of the expected key leak through timing.
+ */
+function keysMatch(received: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(received).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+const rejectRequest = (req: Request, res: Response) => {
+  logger.warn(`Unauthorized API access attempt: ${req.method} ${req.path}`);
+  return res.status(401).json({
+    success: false,
+    error: 'Unauthorized: Invalid or missing API key'
+  });
+};
 
 /**
  * Middleware to authenticate API requests using an API key.
- * The API key should be provided in the 'X-API-Key' header.
- * If no API_KEY environment variable is set, authentication is bypassed.
+ * The API key should be provided in the 'X-API-Key' header and is either the
+ * API_KEY environment variable, a scoped key from the api_keys table or a spending token.
+ * Requests without a valid key are rejected unless AUTH_MODE is disabled-dev-only.
  */
 export const apiKeyAuth = (req: Request, res: Response, next: NextFunction) => {
-  const apiKey = process.env.API_KEY;
+  if (getAuthMode() === 'disabled-dev-only') {
+    return next();
+  }
+
+  // Get the API key from the request headers; spending tokens may also be sent as a bearer token
+  const authorization = req.headers.authorization;
+  const requestApiKey = req.headers['x-api-key'] ||
+    (authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined);
+
+  if (typeof requestApiKey !== 'string' || requestApiKey === '') {
+    return rejectRequest(req, res);
+  }
+
+  if (requestApiKey.startsWith(SPENDING_TOKEN_PREFIX)) {
+    const principal = spendingTokenService.authenticate(requestApiKey, req.method, req.baseUrl + req.path);
+    if (!principal) {
+      return rejectRequest(req, res);
+    }
+
+    req.apiKey = principal;
+    return next();
+  }
 
-  // If no API key is configured, skip authentication
-  if (!apiKey || apiKey.trim() === '' || apiKey === 'change-me-to-a-secure-api-key') {
-    logger.warn('API authentication is disabled. Set API_KEY in .env for security.');
+  const apiKey = getEnvApiKey();
+  if (apiKey && keysMatch(requestApiKey, apiKey)) {
+    req.apiKey = ENV_API_KEY_PRINCIPAL;
     return next();
   }
 
-  // Get the API key from the request headers
-  const requestApiKey = req.headers['x-api-key'];
+  apiKeyService.authenticate(requestApiKey)
+    .then(principal => {
+      if (!principal) {
+        return rejectRequest(req, res);
+      }
 
-  // Check if the API key is valid
-  if (!requestApiKey || requestApiKey !== apiKey) {
-    logger.warn(`Unauthorized API access attempt: ${req.method} ${req.path}`);
-    return res.status(401).json({
-      success: false,
-      error: 'Unauthorized: Invalid or missing API key'
-    });
+      // API key is valid, proceed
+      req.apiKey = principal;
+      next();
+    })
+    .catch(next);
+};
+
+/**
+ * Middleware that only lets requests through if their API key has the given scope
+ */
+export const requireScope = (scope: ApiKeyScope) => (req: Request, _res: Response, next: NextFunction) => {
+  if (req.apiKey && !apiKeyService.hasScope(req.apiKey, scope)) {
+    return next(new ForbiddenError(`API key does not have the ${scope} scope`));
   }
 
-  // API key is valid, proceed
   next();
-}; 
\ No newline at end of file
+};
+
+/**
+ * Throws a ForbiddenError if the request's API key is restricted to other accounts
+ */
+export function assertAccountAccess(req: Request, accountId: string | null): void {
+  if (!req.apiKey) {
+    return;
+  }
+
+  if (accountId === null ? req.apiKey.accountIds.length > 0 : !apiKeyService.canAccessAccount(req.apiKey, accountId)) {
+    throw new ForbiddenError(accountId === null
+      ? 'API key is restricted to specific accounts'
+      : `API key does not have access to account ${accountId}`);
+  }
+}
+
+/**
+ * Gets the accounts the request's API key is restricted to, or undefined if it may use every account
+ */
+export function getAccessibleAccountIds(req: Request): string[] | undefined {
+  return req.apiKey && req.apiKey.accountIds.length > 0 ? req.apiKey.accountIds : undefined;
+}
@@ -0,0 +1,175 @@
+import express, { Request, Response } from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { idempotency } from './idempotencyMiddleware';
+import { asyncHandler, errorHandler } from './errorHandler';
+import { idempotencyService } from '../services/idempotencyService';
+import { IdempotencyKeyInput, IdempotencyKeySummary } from '../models/interfaces';
+
+interface SentRequest {
+  response: Promise<{ status: number; replayed: boolean; body: any }>;
+  disconnect: () => void;
+}
+
+/**
+ * Keeps Idempotency-Keys in memory in place of the database
+ */
+function createKeyStore() {
+  const records = new Map<string, IdempotencyKeySummary>();
+
+  return {
+    records,
+    claimIdempotencyKey: async (input: IdempotencyKeyInput, abandonedBefore: Date) => {
+      const existing = records.get(input.key);
+      if (existing && (existing.responseStatus !== null || existing.createdAt > abandonedBefore)) {
+        return { record: { ...existing }, created: false };
+      }
+      const record = { ...input, id: input.key, responseStatus: null, responseBody: null, createdAt: new Date() };
+      records.set(input.key, record);
+      return { record: { ...record }, created: true };
+    },
+    completeIdempotencyKey: async (id: string, responseStatus: number, responseBody: string) => {
+      Object.assign(records.get(id)!, { responseStatus, responseBody });
+    },
+    releaseIdempotencyKey: async (id: string) => {
+      records.delete(id);
+    }
+  };
+}
+
+function send(port: number, key: string, body: unknown): SentRequest {
+  const payload = JSON.stringify(body);
+  let request!: http.ClientRequest;
+
+  const response = new Promise<{ status: number; replayed: boolean; body: any }>((resolve, reject) => {
+    request = http.request({
+      port,
+      method: 'POST',
+      path: '/payments',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key }
+    }, res => {
+      let data = '';
+      res.on('data', chunk => { data += chunk; });
+      res.on('end', () => resolve({
+        status: res.statusCode || 0,
+        replayed: res.headers['idempotent-replayed'] === 'true',
+        body: JSON.parse(data)
+      }));
+    });
+    request.on('error', reject);
+    request.end(payload);
+  });
+
+  return { response, disconnect: () => request.destroy() };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 200 && !condition(); attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('idempotency middleware', () => {
+  let server: http.Server;
+  let port: number;
+  let store: ReturnType<typeof createKeyStore>;
+  let handled: number;
+  let finishHandler: () => void;
+  let handlerResult: Promise<void>;
+  let failHandler: boolean;
+
+  beforeEach(async () => {
+    store = createKeyStore();
+    (idempotencyService as unknown as { dbService: unknown }).dbService = store;
+
+    handled = 0;
+    failHandler = false;
+    handlerResult = Promise.resolve();
+
+    const app = express();
+    app.use(express.json());
+    app.post('/payments', idempotency, asyncHandler(async (req: Request, res: Response) => {
+      handled++;
+      await handlerResult;
+      if (failHandler) {
+        throw new Error('LND unavailable after the payment was sent');
+      }
+      res.status(201).json({ success: true, data: { payment: handled } });
+    }));
+    app.use(errorHandler);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function holdHandler(): void {
+    handlerResult = new Promise(resolve => { finishHandler = resolve; });
+  }
+
+  it('replays the stored response instead of running the request again', async () => {
+    const first = await send(port, 'order-1', { amount: 1000 }).response;
+    const retry = await send(port, 'order-1', { amount: 1000 }).response;
+
+    expect(first).toEqual({ status: 201, replayed: false, body: { success: true, data: { payment: 1 } } });
+    expect(retry).toEqual({ status: 201, replayed: true, body: first.body });
+    expect(handled).toBe(1);
+  });
+
+  it('refuses to reuse a key for a different request', async () => {
+    await send(port, 'order-1', { amount: 1000 }).response;
+    const reused = await send(port, 'order-1', { amount: 2000 }).response;
+
+    expect(reused.status).toBe(422);
+    expect(handled).toBe(1);
+  });
+
+  it('keeps the key claimed and stores the response when the client disconnects mid-request', async () => {
+    holdHandler();
+    const first = send(port, 'order-1', { amount: 1000 });
+    first.response.catch(() => undefined);
+    await waitFor(() => handled === 1);
+
+    first.disconnect();
+    const duringRequest = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(duringRequest.status).toBe(409);
+
+    finishHandler();
+    await waitFor(() => store.records.get('order-1')?.responseStatus !== null);
+
+    const retry = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(retry).toEqual({ status: 201, replayed: true, body: { success: true, data: { payment: 1 } } });
+    expect(handled).toBe(1);
+  });
+
+  it('releases the key after a server error so the request can be retried', async () => {
+    failHandler = true;
+    const first = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(first.status).toBe(500);
+    expect(store.records.has('order-1')).toBe(false);
+
+    failHandler = false;
+    const retry = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(retry).toEqual({ status: 201, replayed: false, body: { success: true, data: { payment: 2 } } });
+    expect(handled).toBe(2);
+  });
+
+  it('takes over a key whose request stopped responding once its lease runs out', async () => {
+    const fingerprint = idempotencyService.fingerprint('POST', '/payments', { amount: 1000 });
+    const claim = { key: 'order-1', principal: 'anonymous', fingerprint, expiresAt: new Date(Date.now() + 60 * 60 * 1000) };
+    store.records.set('order-1', { ...claim, id: 'order-1', responseStatus: null, responseBody: null, createdAt: new Date() });
+
+    const whileRunning = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(whileRunning.status).toBe(409);
+
+    store.records.get('order-1')!.createdAt = new Date(Date.now() - 10 * 60 * 1000);
+    const afterLease = await send(port, 'order-1', { amount: 1000 }).response;
+    expect(afterLease).toEqual({ status: 201, replayed: false, body: { success: true, data: { payment: 1 } } });
+  });
+});
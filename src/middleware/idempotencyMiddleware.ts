@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { ConflictError, UnprocessableEntityError, ValidationError } from '../utils/errors';
+import { idempotencyService } from '../services/idempotencyService';
+
+// Longest Idempotency-Key accepted
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Identifies who sent a request, so that keys chosen by different clients cannot collide
+ */
+function getPrincipal(req: Request): string {
+  if (!req.apiKey) {
+    return 'anonymous';
+  }
+
+  if (req.apiKey.spendingToken) {
+    return `token:${req.apiKey.spendingToken.id}`;
+  }
+
+  return req.apiKey.id ? `key:${req.apiKey.id}` : req.apiKey.name;
+}
+
+/**
+ * Middleware that makes a request safe to retry when it carries an Idempotency-Key header.
+ * The first request with a key is processed and its response stored; later requests with the
+ * same key and body get the stored response back, while a reused key with a different body is
+ * rejected with 422 and a retry that arrives while the first request is still running gets 409.
+ * The response is stored when the handler produces it, even if the client has disconnected.
+ * Server errors are not stored: the key is released so the request can be retried once the
+ * outage is over. A request that never produces a response keeps its key claimed until the
+ * lease set by IDEMPOTENCY_LEASE_SECONDS runs out.
+ */
+export const idempotency = (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.trim() === '' || key.length > MAX_KEY_LENGTH) {
+    return next(new ValidationError('Invalid Idempotency-Key', {
+      'Idempotency-Key': `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`
+    }));
+  }
+
+  const fingerprint = idempotencyService.fingerprint(req.method, req.baseUrl + req.path, req.body);
+
+  idempotencyService.begin(getPrincipal(req), key, fingerprint)
+    .then(result => {
+      switch (result.status) {
+        case 'mismatch':
+          return next(new UnprocessableEntityError('Idempotency-Key was already used for a different request'));
+        case 'in_progress':
+          return next(new ConflictError('A request with this Idempotency-Key is still being processed'));
+        case 'replay':
+          res.setHeader('Idempotent-Replayed', 'true');
+          return res.status(result.responseStatus).json(result.responseBody);
+      }
+
+      // Store the response before sending it, so a retry made as soon as it arrives is replayed
+      const record = result.record;
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => {
+        res.json = json;
+        const settled = res.statusCode >= 500
+          ? idempotencyService.release(record)
+          : idempotencyService.complete(record, res.statusCode, body);
+        settled
+          .catch(error => {
+            logger.error(`Error storing response for Idempotency-Key ${key}:`, error);
+          })
+          .finally(() => {
+            json(body);
+          });
+        return res;
+      };
+
+      next();
+    })
+    .catch(next);
+};
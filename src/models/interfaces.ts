@@ -1,9 +1,41 @@
-import { TransactionType, TransactionStatus } from '@prisma/client';
+import { TransactionType, TransactionStatus, JournalEntryType, PostingSide, WebhookDeliveryStatus, TransferKind, AccountStatus } from '@prisma/client';
 
 // Interface for creating a new account
 export interface CreateAccountInput {
   name: string;
   description?: string;
+  externalId?: string;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+  parentId?: string;
+  parentSpendLimit?: bigint;
+}
+
+// Interface for updating an account; null clears an optional field
+export interface UpdateAccountInput {
+  name?: string;
+  description?: string | null;
+  externalId?: string | null;
+  metadata?: Record<string, unknown> | null;
+  tags?: string[];
+  parentSpendLimit?: bigint | null;
+}
+
+// Interface for filtering account lists
+export interface AccountFilter {
+  accountIds?: string[]; // Only these accounts, e.g. those an API key is restricted to
+  tags?: string[];       // Accounts with all of these tags
+  externalId?: string;
+  search?: string;       // Accounts whose name contains this, ignoring case
+}
+
+// Fields account lists can be sorted by
+export type AccountSortField = 'name' | 'createdAt' | 'balance';
+
+// Interface for sorting account lists
+export interface AccountSort {
+  field: AccountSortField;
+  order: 'asc' | 'desc';
 }
 
 // Interface for creating a transaction
@@ -14,6 +46,9 @@ export interface CreateLightningTransactionInput {
   type: TransactionType;
   status?: TransactionStatus;
   memo?: string;
+  feeReserve?: string;
+  feeAccountId?: string; // Account that covers the fee reserve and routing fee, when not the payer
+  expiresAt?: Date; // When an incoming invoice stops being payable
 }
 
 // Interface for transaction summary
@@ -25,20 +60,138 @@ export interface TransactionSummary {
   type: TransactionType;
   status: TransactionStatus;
   memo: string | null;
+  fee: string;
+  failureReason: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Interface for fee limits on outgoing payments
+export interface PaymentFeeOptions {
+  maxFeeSats?: string;
+  feeLimitPercent?: number;
+}
+
 // Interface for account summary
 export interface AccountSummary {
   id: string;
   name: string;
   description?: string | null;
+  externalId: string | null;
+  metadata: Record<string, unknown> | null;
+  tags: string[];
+  parentId: string | null;
+  parentSpendLimit: string | null;
+  status: AccountStatus;
+  closedAt: Date | null;
   balance: string;
+  totalBalance: string; // Balance including all descendant accounts
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Interface for an account with its sub-accounts
+export interface AccountTreeNode extends AccountSummary {
+  children: AccountTreeNode[];
+}
+
+// Interface for a single ledger posting
+export interface PostingInput {
+  accountId: string;
+  side: PostingSide;
+  amount: bigint;
+}
+
+// Interface for creating a journal entry
+export interface JournalEntryInput {
+  type: JournalEntryType;
+  transactionId?: string;
+  transferId?: string;
+  memo?: string;
+  postings: PostingInput[];
+}
+
+// An account whose maintained balance differs from the sum of its postings
+export interface BalanceMismatch {
+  accountId: string;
+  stored: string;
+  actual: string;
+}
+
+// Interface for journal entry summary
+export interface JournalEntrySummary {
+  id: string;
+  transactionId: string | null;
+  transferId: string | null;
+  type: JournalEntryType;
+  memo: string | null;
+  postings: Array<{
+    accountId: string;
+    side: PostingSide;
+    amount: string;
+  }>;
+  createdAt: Date;
+}
+
+// Interface for creating an internal transfer
+export interface CreateTransferInput {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  memo?: string;
+  idempotencyKey?: string;
+}
+
+// Interface for transfer summary
+export interface TransferSummary {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: string;
+  memo: string | null;
+  kind: TransferKind;
+  idempotencyKey: string | null;
+  createdAt: Date;
+}
+
+// Interface for mapping a payment destination to an account
+export interface PaymentDestinationInput {
+  pubkey: string;
+  accountId: string;
+  description?: string;
+}
+
+// Interface for payment destination summary
+export interface PaymentDestinationSummary {
+  id: string;
+  pubkey: string;
+  accountId: string;
+  description: string | null;
+  createdAt: Date;
+}
+
+// Interface for a difference found between LND and lightning_transactions
+export interface ReconciliationIssue {
+  rHash: string;
+  type: TransactionType;
+  expected: string; // Value according to LND
+  actual: string | null; // Value in our database, null when the row is missing
+  repaired: boolean;
+  error?: string;
+}
+
+// Interface for the result of a reconciliation sweep
+export interface ReconciliationReport {
+  repair: boolean;
+  invoicesScanned: number;
+  paymentsScanned: number;
+  missing: ReconciliationIssue[];
+  statusMismatches: ReconciliationIssue[];
+  amountMismatches: ReconciliationIssue[];
+  startedAt: Date;
+  finishedAt: Date;
+}
+
 // Interface for parsed Lightning invoice
 export interface ParsedInvoice {
   paymentRequest: string;
@@ -53,19 +206,152 @@ export interface ParsedInvoice {
 
 // Interface for creating a webhook
 export interface WebhookInput {
-  accountId: string;
+  accountId: string | null; // null for a webhook that receives events for every account
   url: string;
   secret: string;
+  events?: string[]; // empty or omitted for all events
   enabled?: boolean;
 }
 
 // Interface for webhook summary
 export interface WebhookSummary {
   id: string;
-  accountId: string;
+  accountId: string | null;
   url: string;
+  events: string[];
   secret: string;
+  previousSecret: string | null; // Still accepted by receivers until previousSecretExpiresAt
+  previousSecretExpiresAt: Date | null;
   enabled: boolean;
   createdAt: Date;
   updatedAt: Date;
-} 
\ No newline at end of file
+}
+
+// Interface for webhook delivery summary
+export interface WebhookDeliverySummary {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt: Date | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interface for the outcome of a webhook delivery attempt
+export interface WebhookDeliveryAttempt {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: Date | null;
+}
+
+// Interface for an entry in the account event log
+export interface EventLogEntrySummary {
+  id: string; // Monotonic, used as the SSE event ID
+  event: string;
+  accountId: string | null;
+  data: any;
+  createdAt: Date;
+}
+
+// Interface for creating an API key
+export interface ApiKeyInput {
+  name: string;
+  keyHash: string;
+  prefix: string;
+  scopes: string[];
+  accountIds?: string[]; // empty or omitted for every account
+  expiresAt?: Date | null;
+}
+
+// Interface for API key summary; the key itself is only returned when it is created
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  accountIds: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interface for the API key a request was authenticated with
+export interface ApiKeyPrincipal {
+  id: string | null; // null for the API_KEY environment variable
+  name: string;
+  scopes: string[];
+  accountIds: string[]; // empty for every account
+  spendingToken?: SpendingTokenClaims; // set when the request used a delegated spending token
+}
+
+// Interface for the limits carried by a verified spending token
+export interface SpendingTokenClaims {
+  id: string;
+  accountId: string;
+  maxAmount: bigint | null; // largest single payment in sats
+  dailyBudget: bigint | null; // total payments in any 24 hours
+  expiresAt: Date | null;
+}
+
+// Interface for recording a payment made with a spending token
+export interface SpendingTokenSpendInput {
+  tokenId: string;
+  accountId: string;
+  rHash: string;
+  amount: bigint;
+}
+
+// Interface for setting an account's spending policy; null clears a limit
+export interface SpendingPolicyInput {
+  maxPaymentAmount?: bigint | null;
+  dailyLimit?: bigint | null;
+  weeklyLimit?: bigint | null;
+  maxPaymentsPerHour?: number | null;
+  allowedDestinations?: string[];
+  blockedDestinations?: string[];
+}
+
+// Interface for spending policy summary
+export interface SpendingPolicySummary {
+  accountId: string;
+  maxPaymentAmount: string | null;
+  dailyLimit: string | null;
+  weeklyLimit: string | null;
+  maxPaymentsPerHour: number | null;
+  allowedDestinations: string[];
+  blockedDestinations: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interface for claiming an Idempotency-Key
+export interface IdempotencyKeyInput {
+  key: string;
+  principal: string;
+  fingerprint: string;
+  expiresAt: Date;
+}
+
+// Interface for a stored Idempotency-Key and its response
+export interface IdempotencyKeySummary {
+  id: string;
+  key: string;
+  principal: string;
+  fingerprint: string;
+  responseStatus: number | null;
+  responseBody: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
@@ -1,25 +1,61 @@
 import { Router } from 'express';
 import { AccountController } from '../controllers/accountController';
+import { EventController } from '../controllers/eventController';
+import { SpendingPolicyController } from '../controllers/spendingPolicyController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
 
 const router = Router();
 const accountController = new AccountController();
+const eventController = new EventController();
+const spendingPolicyController = new SpendingPolicyController();
 
 // Create a new account
-router.post('/', accountController.createAccount);
+router.post('/', requireScope(API_KEY_SCOPES.ADMIN), accountController.createAccount);
 
 // Get all accounts
-router.get('/', accountController.getAllAccounts);
+router.get('/', requireScope(API_KEY_SCOPES.READ), accountController.getAllAccounts);
 
 // Get account by name - MUST come before the ID route to avoid capture
-router.get('/name/:name', accountController.getAccountByName);
+router.get('/name/:name', requireScope(API_KEY_SCOPES.READ), accountController.getAccountByName);
+
+// Get account by external ID - MUST come before the ID route to avoid capture
+router.get('/external/:externalId', requireScope(API_KEY_SCOPES.READ), accountController.getAccountByExternalId);
 
 // Get account by ID
-router.get('/:id', accountController.getAccountById);
+router.get('/:id', requireScope(API_KEY_SCOPES.READ), accountController.getAccountById);
+
+// Update an account's details
+router.patch('/:id', requireScope(API_KEY_SCOPES.ADMIN), accountController.updateAccount);
+
+// Get an account with its sub-accounts and rolled-up balances
+router.get('/:id/tree', requireScope(API_KEY_SCOPES.READ), accountController.getAccountTree);
 
 // Get transactions for an account
-router.get('/:id/transactions', accountController.getAccountTransactions);
+router.get('/:id/transactions', requireScope(API_KEY_SCOPES.READ), accountController.getAccountTransactions);
+
+// Get account balance, now or as of a past point in time
+router.get('/:id/balance', requireScope(API_KEY_SCOPES.READ), accountController.getAccountBalance);
+
+// Stream the account's events as Server-Sent Events
+router.get('/:id/events', requireScope(API_KEY_SCOPES.READ), eventController.streamAccountEvents);
+
+// Freeze the account so it can receive but not spend
+router.post('/:id/freeze', requireScope(API_KEY_SCOPES.ADMIN), accountController.freezeAccount);
+
+// Let a frozen account spend again
+router.post('/:id/unfreeze', requireScope(API_KEY_SCOPES.ADMIN), accountController.unfreezeAccount);
+
+// Close the account, sweeping any balance to another account
+router.post('/:id/close', requireScope(API_KEY_SCOPES.ADMIN), accountController.closeAccount);
+
+// Get the account's spending policy
+router.get('/:id/spending-policy', requireScope(API_KEY_SCOPES.READ), spendingPolicyController.getSpendingPolicy);
+
+// Create or update the account's spending policy
+router.put('/:id/spending-policy', requireScope(API_KEY_SCOPES.ADMIN), spendingPolicyController.updateSpendingPolicy);
 
-// Get account balance
-router.get('/:id/balance', accountController.getAccountBalance);
+// Remove the account's spending policy
+router.delete('/:id/spending-policy', requireScope(API_KEY_SCOPES.ADMIN), spendingPolicyController.deleteSpendingPolicy);
 
 export default router; 
\ No newline at end of file
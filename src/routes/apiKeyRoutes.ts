@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/apiKeyController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const apiKeyController = new ApiKeyController();
+
+// Every API key endpoint needs the admin scope
+router.use(requireScope(API_KEY_SCOPES.ADMIN));
+
+// Create a new API key
+router.post('/', apiKeyController.createApiKey);
+
+// Get API keys
+router.get('/', apiKeyController.getApiKeys);
+
+// Get API key by ID
+router.get('/:id', apiKeyController.getApiKeyById);
+
+// Revoke an API key
+router.delete('/:id', apiKeyController.revokeApiKey);
+
+export default router;
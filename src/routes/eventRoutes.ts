@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { EventController } from '../controllers/eventController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const eventController = new EventController();
+
+// Stream events for every account as Server-Sent Events
+router.get('/', requireScope(API_KEY_SCOPES.READ), eventController.streamEvents);
+
+export default router;
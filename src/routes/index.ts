@@ -3,7 +3,15 @@ import accountRoutes from './accountRoutes';
 import transactionRoutes from './transactionRoutes';
 import invoiceRoutes from './invoiceRoutes';
 import webhookRoutes from './webhookRoutes';
+import ledgerRoutes from './ledgerRoutes';
+import transferRoutes from './transferRoutes';
+import paymentDestinationRoutes from './paymentDestinationRoutes';
+import eventRoutes from './eventRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
+import spendingTokenRoutes from './spendingTokenRoutes';
 import { lndService } from '../services/lndService';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
 
 const router = Router();
 
@@ -11,9 +19,15 @@ router.use('/accounts', accountRoutes);
 router.use('/transactions', transactionRoutes);
 router.use('/invoices', invoiceRoutes);
 router.use('/webhooks', webhookRoutes);
+router.use('/ledger', ledgerRoutes);
+router.use('/transfers', transferRoutes);
+router.use('/payment-destinations', paymentDestinationRoutes);
+router.use('/events', eventRoutes);
+router.use('/api-keys', apiKeyRoutes);
+router.use('/spending-tokens', spendingTokenRoutes);
 
 // Add a test endpoint for LND connection
-router.get('/lnd/info', async (req, res, next) => {
+router.get('/lnd/info', requireScope(API_KEY_SCOPES.READ), async (req, res, next) => {
   try {
     const info = await lndService.getInfo();
     return res.json({ success: true, data: info });
@@ -1,22 +1,28 @@
 import { Router } from 'express';
 import { InvoiceController } from '../controllers/invoiceController';
+import { requireScope } from '../middleware/authMiddleware';
+import { idempotency } from '../middleware/idempotencyMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
 
 const router = Router();
 const invoiceController = new InvoiceController();
 
 // Process an incoming invoice
-router.post('/incoming', invoiceController.processIncomingInvoice);
+router.post('/incoming', requireScope(API_KEY_SCOPES.INVOICE_CREATE), idempotency, invoiceController.processIncomingInvoice);
 
 // Process an outgoing payment
-router.post('/outgoing', invoiceController.processOutgoingPayment);
+router.post('/outgoing', requireScope(API_KEY_SCOPES.PAYMENT_SEND), idempotency, invoiceController.processOutgoingPayment);
 
 // Check invoice status
-router.get('/status/:rHash', invoiceController.checkInvoiceStatus);
+router.get('/status/:rHash', requireScope(API_KEY_SCOPES.READ), invoiceController.checkInvoiceStatus);
+
+// Wait for an invoice to be settled or canceled
+router.get('/:rHash/wait', requireScope(API_KEY_SCOPES.READ), invoiceController.waitForInvoice);
 
 // Get an invoice by payment hash
-router.get('/:rHash', invoiceController.getInvoiceByRHash);
+router.get('/:rHash', requireScope(API_KEY_SCOPES.READ), invoiceController.getInvoiceByRHash);
 
 // Get invoices by user identifier
-router.get('/user/:userIdentifier', invoiceController.getInvoicesByUserIdentifier);
+router.get('/user/:userIdentifier', requireScope(API_KEY_SCOPES.READ), invoiceController.getInvoicesByUserIdentifier);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { LedgerController } from '../controllers/ledgerController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const ledgerController = new LedgerController();
+
+// Verify that every journal entry balances
+router.get('/verify', requireScope(API_KEY_SCOPES.READ), ledgerController.verifyLedger);
+
+// Check the maintained account balances against the postings
+router.get('/balances/verify', requireScope(API_KEY_SCOPES.READ), ledgerController.verifyBalances);
+
+// Repair maintained account balances that do not match the postings
+router.post('/balances/repair', requireScope(API_KEY_SCOPES.ADMIN), ledgerController.repairBalances);
+
+// Reconcile transactions against LND's full history
+router.post('/reconcile', requireScope(API_KEY_SCOPES.ADMIN), ledgerController.reconcile);
+
+// Get the most recent reconciliation report
+router.get('/reconcile', requireScope(API_KEY_SCOPES.READ), ledgerController.getLastReconciliation);
+
+export default router;
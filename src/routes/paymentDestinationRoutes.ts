@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { PaymentDestinationController } from '../controllers/paymentDestinationController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const paymentDestinationController = new PaymentDestinationController();
+
+// Map a destination pubkey to an account
+router.post('/', requireScope(API_KEY_SCOPES.ADMIN), paymentDestinationController.createPaymentDestination);
+
+// Get payment destination mappings
+router.get('/', requireScope(API_KEY_SCOPES.READ), paymentDestinationController.getPaymentDestinations);
+
+// Delete a payment destination mapping
+router.delete('/:id', requireScope(API_KEY_SCOPES.ADMIN), paymentDestinationController.deletePaymentDestination);
+
+export default router;
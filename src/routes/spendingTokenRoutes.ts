@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { SpendingTokenController } from '../controllers/spendingTokenController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const spendingTokenController = new SpendingTokenController();
+
+// Mint a spending token for an account
+router.post('/', requireScope(API_KEY_SCOPES.ADMIN), spendingTokenController.createSpendingToken);
+
+export default router;
@@ -1,19 +1,24 @@
 import { Router } from 'express';
 import { TransactionController } from '../controllers/transactionController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
 
 const router = Router();
 const transactionController = new TransactionController();
 
 // Create a new transaction
-router.post('/', transactionController.createTransaction);
+router.post('/', requireScope(API_KEY_SCOPES.ADMIN), transactionController.createTransaction);
 
 // Get all transactions
-router.get('/', transactionController.getAllTransactions);
+router.get('/', requireScope(API_KEY_SCOPES.READ), transactionController.getAllTransactions);
 
 // Get transaction by rHash
-router.get('/:rHash', transactionController.getTransactionByRHash);
+router.get('/:rHash', requireScope(API_KEY_SCOPES.READ), transactionController.getTransactionByRHash);
+
+// Get the journal entries posted for a transaction
+router.get('/:rHash/entries', requireScope(API_KEY_SCOPES.READ), transactionController.getTransactionEntries);
 
 // Update transaction status
-router.put('/:rHash/status', transactionController.updateTransactionStatus);
+router.put('/:rHash/status', requireScope(API_KEY_SCOPES.ADMIN), transactionController.updateTransactionStatus);
 
 export default router; 
\ No newline at end of file
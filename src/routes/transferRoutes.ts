@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { TransferController } from '../controllers/transferController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
+
+const router = Router();
+const transferController = new TransferController();
+
+// Create a transfer between two accounts
+router.post('/', requireScope(API_KEY_SCOPES.PAYMENT_SEND), transferController.createTransfer);
+
+// Get transfers for an account
+router.get('/', requireScope(API_KEY_SCOPES.READ), transferController.getTransfers);
+
+// Get a transfer by ID
+router.get('/:id', requireScope(API_KEY_SCOPES.READ), transferController.getTransferById);
+
+export default router;
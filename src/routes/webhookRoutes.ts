@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { WebhookController } from '../controllers/webhookController';
+import { requireScope } from '../middleware/authMiddleware';
+import { API_KEY_SCOPES } from '../services/apiKeyService';
 
 const router = Router();
 const webhookController = new WebhookController();
 
+// Webhooks carry their signing secrets, so every endpoint needs the admin scope
+router.use(requireScope(API_KEY_SCOPES.ADMIN));
+
 // Get all webhooks for an account
 router.get('/', webhookController.getWebhooks);
 
@@ -16,7 +21,16 @@ router.post('/', webhookController.createWebhook);
 // Update a webhook
 router.put('/:id', webhookController.updateWebhook);
 
+// Generate a new secret, keeping the old one valid for an overlap window
+router.post('/:id/rotate-secret', webhookController.rotateWebhookSecret);
+
 // Delete a webhook
 router.delete('/:id', webhookController.deleteWebhook);
 
+// Get the deliveries for a webhook
+router.get('/:id/deliveries', webhookController.getWebhookDeliveries);
+
+// Send a delivery again
+router.post('/:id/deliveries/:deliveryId/redeliver', webhookController.redeliverWebhookDelivery);
+
 export default router; 
\ No newline at end of file
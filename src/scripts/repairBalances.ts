@@ -0,0 +1,35 @@
+import dotenv from 'dotenv';
+
+// Load environment variables before the database client is created
+dotenv.config();
+
+import { DbService } from '../services/dbService';
+import { logger } from '../utils/logger';
+
+/**
+ * Rewrites every maintained account balance that no longer matches the sum of its postings,
+ * then every daily balance snapshot that no longer matches the postings before it.
+ *
+ * Usage:
+ *   npm run repair-balances
+ */
+async function main(): Promise<void> {
+  const dbService = new DbService();
+  const repaired = await dbService.repairBalances();
+
+  if (repaired.length === 0) {
+    logger.info('All account balances match their postings');
+  } else {
+    logger.info(`Repaired ${repaired.length} account balances`);
+  }
+
+  const snapshots = await dbService.repairBalanceSnapshots();
+  logger.info(snapshots === 0 ? 'All balance snapshots match their postings' : `Repaired ${snapshots} balance snapshots`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    logger.error('Error repairing account balances:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import { ApiKeyPrincipal, ApiKeySummary } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { DbService } from './dbService';
+
+/**
+ * Scopes an API key can be granted. admin grants every other scope as well.
+ */
+export const API_KEY_SCOPES = {
+  READ: 'read',
+  INVOICE_CREATE: 'invoice:create',
+  PAYMENT_SEND: 'payment:send',
+  ADMIN: 'admin'
+} as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+
+/**
+ * Prefix of generated keys, so they are easy to recognise in logs and config
+ */
+const API_KEY_PREFIX = 'lndk_';
+
+// Number of leading characters of a key stored in clear, to tell keys apart
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// lastUsedAt is only written when it is older than this, to avoid a write per request
+const TOUCH_INTERVAL_MS = 60000;
+
+/**
+ * Issues and checks scoped API keys. Keys are only ever stored as SHA-256 hashes.
+ */
+export class ApiKeyService {
+  private dbService: DbService;
+
+  constructor() {
+    this.dbService = new DbService();
+  }
+
+  /**
+   * Check that every value in a list is a known scope
+   */
+  isValidScopeList(scopes: unknown): scopes is ApiKeyScope[] {
+    const known: string[] = Object.values(API_KEY_SCOPES);
+    return Array.isArray(scopes) && scopes.length > 0 &&
+      scopes.every(scope => typeof scope === 'string' && known.includes(scope));
+  }
+
+  /**
+   * Create a key and return it together with its summary. The key cannot be retrieved again.
+   */
+  async createKey(name: string, scopes: ApiKeyScope[], accountIds: string[] = [], expiresAt: Date | null = null): Promise<{
+    key: string;
+    apiKey: ApiKeySummary;
+  }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+
+    const apiKey = await this.dbService.createApiKey({
+      name,
+      keyHash: this.hashKey(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(scopes)),
+      accountIds: Array.from(new Set(accountIds)),
+      expiresAt
+    });
+
+    logger.info(`Created API key ${apiKey.id} (${apiKey.prefix}...) with scopes ${apiKey.scopes.join(', ')}`);
+
+    return { key, apiKey };
+  }
+
+  /**
+   * Look up the key presented with a request. Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const apiKey = await this.dbService.getApiKeyByHash(this.hashKey(key));
+    const now = new Date();
+
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+      this.dbService.touchApiKey(apiKey.id, now).catch(error => {
+        logger.warn(`Error recording use of API key ${apiKey.id}:`, error);
+      });
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      accountIds: apiKey.accountIds
+    };
+  }
+
+  /**
+   * Check whether a key has been granted a scope
+   */
+  hasScope(principal: ApiKeyPrincipal, scope: ApiKeyScope): boolean {
+    return principal.scopes.includes(API_KEY_SCOPES.ADMIN) || principal.scopes.includes(scope);
+  }
+
+  /**
+   * Check whether a key may act on an account
+   */
+  canAccessAccount(principal: ApiKeyPrincipal, accountId: string): boolean {
+    return principal.accountIds.length === 0 || principal.accountIds.includes(accountId);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
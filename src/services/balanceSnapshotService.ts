@@ -0,0 +1,83 @@
+import { logger } from '../utils/logger';
+import { DbService } from './dbService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wait this long after midnight before closing a day, so entries still being committed are counted
+const SNAPSHOT_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Writes a closing balance snapshot for every account at the end of each UTC day,
+ * so balances at past points in time can be computed without summing the whole ledger
+ */
+export class BalanceSnapshotService {
+  private dbService: DbService;
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    this.dbService = new DbService();
+  }
+
+  /**
+   * Write snapshots for every day that has closed since the last snapshot.
+   * Without earlier snapshots only the most recently closed day is written.
+   * Returns the number of snapshots written.
+   */
+  async run(now = new Date()): Promise<number> {
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    try {
+      const lastClose = new Date(Math.floor((now.getTime() - SNAPSHOT_DELAY_MS) / DAY_MS) * DAY_MS);
+      const latest = await this.dbService.getLatestBalanceSnapshotTime();
+
+      let written = 0;
+      let closedAt = latest ? new Date(latest.getTime() + DAY_MS) : lastClose;
+
+      // Days are written oldest first, as each snapshot builds on the one before it
+      while (closedAt.getTime() <= lastClose.getTime()) {
+        const count = await this.dbService.createBalanceSnapshots(closedAt);
+        logger.info(`Wrote ${count} balance snapshots for the day ending ${closedAt.toISOString()}`);
+        written += count;
+        closedAt = new Date(closedAt.getTime() + DAY_MS);
+      }
+
+      return written;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Check for closed days on a fixed interval
+   */
+  start(intervalMs = 60 * 60 * 1000): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting balance snapshots (interval: ${intervalMs}ms)`);
+
+    this.interval = setInterval(() => {
+      this.run().catch(error => {
+        logger.error('Error writing balance snapshots:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop writing balance snapshots
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped balance snapshots');
+    }
+  }
+}
+
+export const balanceSnapshotService = new BalanceSnapshotService();
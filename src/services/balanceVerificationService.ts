@@ -0,0 +1,71 @@
+import { BalanceMismatch } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { DbService } from './dbService';
+
+/**
+ * Periodically checks the maintained account balances against the full sum of the postings,
+ * optionally repairing any that have drifted
+ */
+export class BalanceVerificationService {
+  private dbService: DbService;
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor() {
+    this.dbService = new DbService();
+  }
+
+  /**
+   * Verify every balance once. With repair enabled, mismatched balances are rewritten from the postings.
+   * Returns the mismatches that were found.
+   */
+  async run(repair = false): Promise<BalanceMismatch[]> {
+    if (this.running) {
+      return [];
+    }
+    this.running = true;
+
+    try {
+      const { mismatches } = await this.dbService.verifyBalances();
+
+      if (mismatches.length > 0 && repair) {
+        const repaired = await this.dbService.repairBalances();
+        logger.warn(`Repaired ${repaired.length} account balances`);
+      }
+
+      return mismatches;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Verify balances on a fixed interval
+   */
+  start(intervalMs: number, repair = false): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting balance verification (interval: ${intervalMs}ms, repair: ${repair})`);
+
+    this.interval = setInterval(() => {
+      this.run(repair).catch(error => {
+        logger.error('Error verifying account balances:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop verifying balances
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped balance verification');
+    }
+  }
+}
+
+export const balanceVerificationService = new BalanceVerificationService();
@@ -0,0 +1,247 @@
+import { JournalEntryType, PostingSide, TransactionStatus, TransactionType } from '@prisma/client';
+import { DbService } from './dbService';
+import { ledgerService, SYSTEM_ACCOUNTS } from './ledgerService';
+import { InMemoryPrisma } from '../testing/inMemoryPrisma';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../utils/errors';
+
+/**
+ * A DbService whose queries run against an in-memory database
+ */
+function createDbService(db: InMemoryPrisma): DbService {
+  const dbService = new DbService();
+  (dbService as unknown as { prisma: unknown }).prisma = db.client;
+  return dbService;
+}
+
+/**
+ * Credits an account from the node's funds, as a settled invoice would
+ */
+async function fund(db: InMemoryPrisma, accountId: string, amount: number): Promise<void> {
+  const nodeAccountId = await ledgerService.getSystemAccountId(db.client, SYSTEM_ACCOUNTS.NODE_ASSET);
+  await ledgerService.postEntry(db.client, {
+    type: JournalEntryType.INVOICE_SETTLEMENT,
+    postings: [
+      { accountId: nodeAccountId, side: PostingSide.DEBIT, amount: BigInt(amount) },
+      { accountId, side: PostingSide.CREDIT, amount: BigInt(amount) }
+    ]
+  });
+}
+
+function outgoingPayment(accountId: string, rHash: string, amount: number) {
+  return { accountId, rHash, amount: String(amount), feeReserve: '0', type: TransactionType.OUTGOING };
+}
+
+// The balance and spending queries run against InMemoryPrisma's JavaScript versions of them, so
+// these tests cover the locking and checks in DbService, not the SQL
+describe('DbService payment reservations', () => {
+  let db: InMemoryPrisma;
+  let dbService: DbService;
+  let payerId: string;
+
+  beforeEach(async () => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    db = new InMemoryPrisma();
+    dbService = createDbService(db);
+    payerId = db.insert('accounts', { name: 'payer' }).id;
+    await fund(db, payerId, 1000);
+  });
+
+  it('lets only one of two concurrent payments spend the same balance', async () => {
+    const results = await Promise.allSettled([
+      dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'a'.repeat(64), 600)),
+      dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'b'.repeat(64), 600))
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected?.reason).toBeInstanceOf(UnprocessableEntityError);
+    expect(db.tables.lightningTransactions).toHaveLength(1);
+  });
+
+  it('counts the fee reserve against the balance', async () => {
+    await expect(dbService.reserveOutgoingPayment({ ...outgoingPayment(payerId, 'a'.repeat(64), 995), feeReserve: '10' }))
+      .rejects.toBeInstanceOf(UnprocessableEntityError);
+  });
+
+  it('does not settle an internal payment against funds reserved by a concurrent payment', async () => {
+    const payeeId = db.insert('accounts', { name: 'payee' }).id;
+    db.insert('lightningTransactions', {
+      accountId: payeeId,
+      rHash: 'c'.repeat(64),
+      amount: '600',
+      type: TransactionType.INCOMING,
+      status: TransactionStatus.PENDING
+    });
+
+    const results = await Promise.allSettled([
+      dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'a'.repeat(64), 600)),
+      dbService.settleInternalPayment(payerId, 'c'.repeat(64))
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+
+    // Whichever payment won, the payer never committed more than it had
+    const balance = db.postingBalances().get(payerId) || BigInt(0);
+    const reserved = db.tables.lightningTransactions
+      .filter(transaction => transaction.accountId === payerId && transaction.status === TransactionStatus.PENDING)
+      .reduce((total, transaction) => total + BigInt(transaction.amount), BigInt(0));
+    expect(balance - reserved).toBeGreaterThanOrEqual(BigInt(0));
+  });
+
+  it('lets a failed payment be retried but not one that is still pending', async () => {
+    await dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'a'.repeat(64), 600));
+    await expect(dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'a'.repeat(64), 600)))
+      .rejects.toBeInstanceOf(ConflictError);
+
+    await dbService.failOutgoingPayment('a'.repeat(64), 'Payment not found in LND');
+    const retry = await dbService.reserveOutgoingPayment({ ...outgoingPayment(payerId, 'a'.repeat(64), 600), feeReserve: '5' });
+
+    expect(retry.status).toBe(TransactionStatus.PENDING);
+    expect(db.tables.lightningTransactions).toHaveLength(1);
+    expect(db.tables.lightningTransactions[0]).toMatchObject({ feeReserve: '5', failureReason: null });
+    await expect(dbService.reserveOutgoingPayment(outgoingPayment(payerId, 'b'.repeat(64), 400)))
+      .rejects.toBeInstanceOf(UnprocessableEntityError);
+  });
+});
+
+describe('DbService journal entries for a payment hash', () => {
+  it('only returns the entries of the side the caller may access', async () => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    const db = new InMemoryPrisma();
+    const dbService = createDbService(db);
+    const payerId = db.insert('accounts', { name: 'payer' }).id;
+    const payeeId = db.insert('accounts', { name: 'payee' }).id;
+    await fund(db, payerId, 1000);
+    db.insert('lightningTransactions', {
+      accountId: payeeId, rHash: 'c'.repeat(64), amount: '600', type: TransactionType.INCOMING, status: TransactionStatus.PENDING
+    });
+    await dbService.settleInternalPayment(payerId, 'c'.repeat(64));
+
+    const all = await dbService.getJournalEntriesByRHash('c'.repeat(64));
+    const payerOnly = await dbService.getJournalEntriesByRHash('c'.repeat(64), [payerId]);
+
+    const postedTo = (entries: typeof all) => entries.flatMap(entry => entry.postings.map(posting => posting.accountId));
+    expect(postedTo(all)).toEqual(expect.arrayContaining([payerId, payeeId]));
+    expect(postedTo(payerOnly)).toContain(payerId);
+    expect(postedTo(payerOnly)).not.toContain(payeeId);
+    await expect(dbService.getJournalEntriesByRHash('c'.repeat(64), ['another-account'])).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
+
+describe('DbService fee sponsors', () => {
+  let db: InMemoryPrisma;
+  let dbService: DbService;
+  let payerId: string;
+  let sponsorId: string;
+
+  beforeEach(async () => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    db = new InMemoryPrisma();
+    dbService = createDbService(db);
+    payerId = db.insert('accounts', { name: 'payer' }).id;
+    sponsorId = db.insert('accounts', { name: 'sponsor' }).id;
+    await fund(db, payerId, 1000);
+    await fund(db, sponsorId, 50);
+  });
+
+  it('holds the fee reserve against the sponsor instead of the payer', async () => {
+    await dbService.reserveOutgoingPayment({ ...outgoingPayment(payerId, 'a'.repeat(64), 1000), feeReserve: '20', feeAccountId: sponsorId });
+
+    expect((await ledgerService.getBalanceBreakdown(db.client, payerId)).available).toBe(BigInt(0));
+    expect((await ledgerService.getBalanceBreakdown(db.client, sponsorId)).available).toBe(BigInt(30));
+  });
+
+  it('refuses a payment whose fee reserve the sponsor cannot cover', async () => {
+    await expect(dbService.reserveOutgoingPayment({ ...outgoingPayment(payerId, 'a'.repeat(64), 100), feeReserve: '60', feeAccountId: sponsorId }))
+      .rejects.toBeInstanceOf(UnprocessableEntityError);
+    expect(db.tables.lightningTransactions).toHaveLength(0);
+  });
+
+  it('charges the routing fee to the sponsor the reserve was held against', async () => {
+    await dbService.reserveOutgoingPayment({ ...outgoingPayment(payerId, 'a'.repeat(64), 100), feeReserve: '20', feeAccountId: sponsorId });
+    await dbService.completeOutgoingPayment('a'.repeat(64), '7');
+
+    const balances = db.postingBalances();
+    expect(balances.get(payerId)).toBe(BigInt(900));
+    expect(balances.get(sponsorId)).toBe(BigInt(43));
+  });
+});
+
+describe('DbService parent draws', () => {
+  it('moves a draw back to the parent when the payment it covered fails', async () => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    const db = new InMemoryPrisma();
+    const dbService = createDbService(db);
+    const parentId = db.insert('accounts', { name: 'parent' }).id;
+    const childId = db.insert('accounts', { name: 'child', parentId, parentSpendLimit: BigInt(500) }).id;
+    await fund(db, parentId, 1000);
+    await fund(db, childId, 100);
+
+    // A payment of 400 that drew the 300 the child was short of
+    const draw = db.insert('transfers', { fromAccountId: parentId, toAccountId: childId, amount: '300', kind: 'PARENT_DRAW' });
+    await ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      transferId: draw.id,
+      postings: [
+        { accountId: parentId, side: PostingSide.DEBIT, amount: BigInt(300) },
+        { accountId: childId, side: PostingSide.CREDIT, amount: BigInt(300) }
+      ]
+    });
+    db.insert('lightningTransactions', {
+      ...outgoingPayment(childId, 'a'.repeat(64), 400), status: TransactionStatus.PENDING, parentDrawId: draw.id
+    });
+
+    await dbService.failOutgoingPayment('a'.repeat(64), 'No route found');
+    expect(await dbService.failOutgoingPayment('a'.repeat(64), 'No route found')).toBeNull();
+
+    const balances = db.postingBalances();
+    expect(balances.get(parentId)).toBe(BigInt(1000));
+    expect(balances.get(childId)).toBe(BigInt(100));
+    expect(db.tables.transfers.filter(transfer => transfer.kind === 'PARENT_DRAW_RETURN')).toEqual([
+      expect.objectContaining({ fromAccountId: childId, toAccountId: parentId, amount: '300' })
+    ]);
+  });
+});
+
+describe('DbService account closing', () => {
+  let db: InMemoryPrisma;
+  let dbService: DbService;
+  let accountId: string;
+
+  beforeEach(() => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    db = new InMemoryPrisma();
+    dbService = createDbService(db);
+    accountId = db.insert('accounts', { name: 'closing' }).id;
+    // The account summary returned after closing reads balances with a query the fake does not run
+    jest.spyOn(dbService, 'getAccount').mockResolvedValue(null);
+  });
+
+  function invoice(rHash: string, expiresAt: Date) {
+    return db.insert('lightningTransactions', {
+      accountId, rHash, amount: '100', type: TransactionType.INCOMING, status: TransactionStatus.PENDING, expiresAt
+    });
+  }
+
+  it('marks expired invoices failed instead of refusing to close', async () => {
+    const expired = invoice('a'.repeat(64), new Date(Date.now() - 2 * 60 * 60 * 1000));
+
+    await dbService.closeAccount(accountId);
+
+    expect(expired.status).toBe(TransactionStatus.FAILED);
+    expect(db.tables.accounts[0].status).toBe('CLOSED');
+  });
+
+  it('refuses to close while an invoice can still be paid', async () => {
+    invoice('a'.repeat(64), new Date(Date.now() + 60 * 60 * 1000));
+
+    await expect(dbService.closeAccount(accountId)).rejects.toBeInstanceOf(ConflictError);
+    expect(db.tables.accounts[0].status).toBe('ACTIVE');
+  });
+
+  it('refuses to close while an outgoing payment is pending', async () => {
+    db.insert('lightningTransactions', { ...outgoingPayment(accountId, 'a'.repeat(64), 100), status: TransactionStatus.PENDING });
+
+    await expect(dbService.closeAccount(accountId)).rejects.toBeInstanceOf(ConflictError);
+  });
+});
@@ -1,17 +1,58 @@
-import { PrismaClient, TransactionType, TransactionStatus, LightningTransaction } from '@prisma/client';
+import { PrismaClient, Prisma, Account, AccountStatus, TransactionType, TransactionStatus, LightningTransaction, AccountKind, JournalEntryType, PostingSide, Transfer, TransferKind, PaymentDestination, Webhook, WebhookDelivery, WebhookDeliveryStatus, EventLogEntry, ApiKey, SpendingPolicy, IdempotencyKey } from '@prisma/client';
 import {
   CreateAccountInput,
   CreateLightningTransactionInput,
   AccountSummary,
+  AccountTreeNode,
+  AccountFilter,
+  AccountSort,
+  BalanceMismatch,
+  UpdateAccountInput,
   TransactionSummary,
+  JournalEntrySummary,
+  CreateTransferInput,
+  TransferSummary,
+  PaymentDestinationInput,
+  PaymentDestinationSummary,
   WebhookInput,
-  WebhookSummary
+  WebhookSummary,
+  WebhookDeliverySummary,
+  WebhookDeliveryAttempt,
+  EventLogEntrySummary,
+  ApiKeyInput,
+  ApiKeySummary,
+  SpendingTokenSpendInput,
+  SpendingPolicyInput,
+  SpendingPolicySummary,
+  IdempotencyKeyInput,
+  IdempotencyKeySummary
 } from '../models/interfaces';
-import { DatabaseError, NotFoundError, handleDatabaseError } from '../utils/errors';
+import {
+  AppError,
+  ConflictError,
+  DatabaseError,
+  ForbiddenError,
+  NotFoundError,
+  SpendingPolicyError,
+  UnprocessableEntityError,
+  ValidationError,
+  handleDatabaseError
+} from '../utils/errors';
 import { logger } from '../utils/logger';
+import { ledgerService } from './ledgerService';
 
 const prisma = new PrismaClient();
 
+// An HTLC accepted just before an invoice expires can still settle, so expiry is only trusted after this
+const INVOICE_EXPIRY_GRACE_MS = 60 * 1000;
+
+/**
+ * Escapes the LIKE wildcards in user input so it is matched literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
 /**
  * Database service for handling all interactions with the database
  */
@@ -23,24 +64,96 @@ export class DbService {
   }
 
   /**
-   * Creates a new account
+   * Exposes the underlying Prisma client for services that share it
+   */
+  getClient(): PrismaClient {
+    return this.prisma;
+  }
+
+  /**
+   * Creates a new account, optionally as a sub-account of another user account
    */
   async createAccount(input: CreateAccountInput): Promise<AccountSummary> {
-    const account = await this.prisma.account.create({
-      data: {
-        name: input.name,
-        description: input.description || null
+    if (input.parentId) {
+      const parent = await this.prisma.account.findUnique({
+        where: { id: input.parentId }
+      });
+
+      if (!parent) {
+        throw new NotFoundError(`Account with ID ${input.parentId} not found`);
       }
+      if (parent.kind !== AccountKind.USER) {
+        throw new ValidationError('System accounts cannot have sub-accounts', { parentId: `Account ${input.parentId} is a system account` });
+      }
+      if (parent.status === AccountStatus.CLOSED) {
+        throw new ConflictError(`Account ${input.parentId} is closed`);
+      }
+    }
+
+    try {
+      const account = await this.prisma.account.create({
+        data: {
+          name: input.name,
+          description: input.description || null,
+          externalId: input.externalId || null,
+          metadata: input.metadata as Prisma.InputJsonObject | undefined,
+          tags: input.tags || [],
+          parentId: input.parentId || null,
+          parentSpendLimit: input.parentSpendLimit ?? null
+        }
+      });
+
+      // New accounts start with zero balance
+      return this.toAccountSummary(account, BigInt(0), BigInt(0));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Updates an account's details. Fields left out of the input are not changed.
+   */
+  async updateAccount(id: string, input: UpdateAccountInput): Promise<AccountSummary> {
+    const account = await this.prisma.account.findUnique({
+      where: { id }
     });
 
-    return {
-      id: account.id,
-      name: account.name,
-      description: account.description,
-      balance: '0', // New accounts start with zero balance
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt
-    };
+    if (!account || account.kind !== AccountKind.USER) {
+      throw new NotFoundError(`Account with ID ${id} not found`);
+    }
+
+    if (input.parentSpendLimit !== undefined && input.parentSpendLimit !== null && !account.parentId) {
+      throw new ValidationError('parentSpendLimit requires a parent', { parentSpendLimit: 'parentSpendLimit can only be set on a sub-account' });
+    }
+
+    try {
+      await this.prisma.account.update({
+        where: { id },
+        data: {
+          name: input.name,
+          description: input.description,
+          externalId: input.externalId,
+          metadata: input.metadata === null ? Prisma.DbNull : input.metadata as Prisma.InputJsonObject | undefined,
+          tags: input.tags,
+          parentSpendLimit: input.parentSpendLimit
+        }
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+
+    return (await this.getAccount(id)) as AccountSummary;
+  }
+
+  /**
+   * Gets an account by the ID it has in another system
+   */
+  async getAccountByExternalId(externalId: string): Promise<AccountSummary | null> {
+    const account = await this.prisma.account.findUnique({
+      where: { externalId }
+    });
+
+    return account ? this.getAccount(account.id) : null;
   }
 
   /**
@@ -48,39 +161,79 @@ export class DbService {
    */
   async getAccount(id: string): Promise<AccountSummary | null> {
     const account = await this.prisma.account.findUnique({
-      where: { id },
-      include: {
-        transactions: true
-      }
+      where: { id }
     });
 
     if (!account) {
       return null;
     }
 
-    const balance = account.transactions.reduce((total: bigint, tx: any) => {
-      const txAmount = BigInt(tx.amount);
-      if (tx.type === TransactionType.INCOMING) {
-        return total + txAmount;
-      } else {
-        return total - txAmount;
-      }
-    }, BigInt(0));
+    const balance = await ledgerService.getBalance(this.prisma, account.id);
+    const totals = await ledgerService.getRolledUpBalances(this.prisma, [account.id]);
 
-    return {
-      id: account.id,
-      name: account.name,
-      description: account.description,
-      balance: balance.toString(),
-      createdAt: account.createdAt,
-      updatedAt: account.updatedAt
+    return this.toAccountSummary(account, balance, totals.get(account.id) || balance);
+  }
+
+  /**
+   * Gets an account and all accounts below it, with each account's own and rolled-up balance
+   */
+  async getAccountTree(id: string): Promise<AccountTreeNode | null> {
+    const subtrees = await ledgerService.getSubtreeAccountIds(this.prisma, [id]);
+    const ids = subtrees.get(id);
+
+    if (!ids) {
+      return null;
+    }
+
+    const accounts = await this.prisma.account.findMany({
+      where: { id: { in: ids } },
+      orderBy: { name: 'asc' }
+    });
+    const balances = await ledgerService.getBalances(this.prisma, ids);
+
+    const nodes = new Map<string, AccountTreeNode>();
+    for (const account of accounts) {
+      const balance = balances.get(account.id) || BigInt(0);
+      nodes.set(account.id, { ...this.toAccountSummary(account, balance, balance), children: [] });
+    }
+
+    for (const node of nodes.values()) {
+      const parent = node.id !== id && node.parentId ? nodes.get(node.parentId) : undefined;
+      parent?.children.push(node);
+    }
+
+    // Roll balances up from the leaves
+    const rollUp = (node: AccountTreeNode): bigint => {
+      const total = node.children.reduce((sum, child) => sum + rollUp(child), BigInt(node.balance));
+      node.totalBalance = total.toString();
+      return total;
     };
+
+    const root = nodes.get(id);
+    if (!root) {
+      return null;
+    }
+
+    rollUp(root);
+    return root;
+  }
+
+  /**
+   * Gets a user account by its exact name
+   */
+  async getAccountByName(name: string): Promise<AccountSummary | null> {
+    const account = await this.prisma.account.findUnique({
+      where: { name }
+    });
+
+    return account && account.kind === AccountKind.USER ? this.getAccount(account.id) : null;
   }
 
   /**
-   * Gets all accounts
+   * Gets all accounts, optionally filtered by ID, tags, external ID or a name search.
+   * Sorting, including by balance, is done in the database so pages are consistent.
    */
-  async getAllAccounts(limit = 20, page = 1): Promise<{
+  async getAllAccounts(limit = 20, page = 1, filter: AccountFilter = {}, sort: AccountSort = { field: 'createdAt', order: 'desc' }): Promise<{
     accounts: AccountSummary[];
     pagination: {
       total: number;
@@ -90,36 +243,51 @@ export class DbService {
     };
   }> {
     const skip = (page - 1) * limit;
-    const totalCount = await this.prisma.account.count();
+    // System accounts are the ledger's counterparties and are not listed
+    const where: Prisma.AccountWhereInput = { kind: AccountKind.USER };
+    if (filter.accountIds) {
+      where.id = { in: filter.accountIds };
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      where.tags = { hasEvery: filter.tags };
+    }
+    if (filter.externalId) {
+      where.externalId = filter.externalId;
+    }
+    if (filter.search) {
+      where.name = { contains: escapeLikePattern(filter.search), mode: 'insensitive' };
+    }
+    const totalCount = await this.prisma.account.count({ where });
     
-    const accounts = await this.prisma.account.findMany({
-      include: {
-        transactions: true
-      },
-      take: limit,
-      skip,
-      orderBy: { createdAt: 'desc' }
-    });
+    let accounts: Account[];
+    if (sort.field === 'balance') {
+      // Balances live in the postings table, so the page is picked with SQL and then loaded in that order
+      const ids = await this.getAccountIdsByBalance(filter, sort.order, limit, skip);
+      const found = await this.prisma.account.findMany({
+        where: { id: { in: ids } }
+      });
+      accounts = ids
+        .map((id: string) => found.find((account: Account) => account.id === id))
+        .filter((account: Account | undefined): account is Account => account !== undefined);
+    } else {
+      accounts = await this.prisma.account.findMany({
+        where,
+        take: limit,
+        skip,
+        // The ID breaks ties so that pages do not overlap
+        orderBy: [{ [sort.field]: sort.order }, { id: sort.order }]
+      });
+    }
 
-    const accountSummaries = accounts.map((account: any) => {
-      const balance = account.transactions.reduce((total: bigint, tx: any) => {
-        const txAmount = BigInt(tx.amount);
-        if (tx.type === TransactionType.INCOMING) {
-          return total + txAmount;
-        } else {
-          return total - txAmount;
-        }
-      }, BigInt(0));
+    const ids = accounts.map((account: Account) => account.id);
+    const balances = await ledgerService.getBalances(this.prisma, ids);
+    const totals = await ledgerService.getRolledUpBalances(this.prisma, ids);
 
-      return {
-        id: account.id,
-        name: account.name,
-        description: account.description,
-        balance: balance.toString(),
-        createdAt: account.createdAt,
-        updatedAt: account.updatedAt
-      };
-    });
+    const accountSummaries = accounts.map((account: Account) => this.toAccountSummary(
+      account,
+      balances.get(account.id) || BigInt(0),
+      totals.get(account.id) || BigInt(0)
+    ));
 
     return {
       accounts: accountSummaries,
@@ -132,6 +300,199 @@ export class DbService {
     };
   }
 
+  /**
+   * Gets a page of user account IDs ordered by settled balance, applying the same filters as getAllAccounts
+   */
+  private async getAccountIdsByBalance(filter: AccountFilter, order: 'asc' | 'desc', limit: number, skip: number): Promise<string[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`a."kind" = 'USER'`];
+    if (filter.accountIds) {
+      conditions.push(filter.accountIds.length > 0
+        ? Prisma.sql`a."id" IN (${Prisma.join(filter.accountIds)})`
+        : Prisma.sql`FALSE`);
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      conditions.push(Prisma.sql`a."tags" @> ${filter.tags}::TEXT[]`);
+    }
+    if (filter.externalId) {
+      conditions.push(Prisma.sql`a."externalId" = ${filter.externalId}`);
+    }
+    if (filter.search) {
+      conditions.push(Prisma.sql`a."name" ILIKE ${`%${escapeLikePattern(filter.search)}%`}`);
+    }
+
+    const direction = order === 'asc' ? Prisma.sql`ASC` : Prisma.sql`DESC`;
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT a."id"
+      FROM "accounts" a
+      LEFT JOIN "account_balances" b ON b."accountId" = a."id"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY COALESCE(b."balance", 0) ${direction}, a."id" ${direction}
+      LIMIT ${limit} OFFSET ${skip}
+    `;
+
+    return rows.map((row: { id: string }) => row.id);
+  }
+
+  private toAccountSummary(account: Account, balance: bigint, totalBalance: bigint): AccountSummary {
+    return {
+      id: account.id,
+      name: account.name,
+      description: account.description,
+      externalId: account.externalId,
+      metadata: account.metadata as Record<string, unknown> | null,
+      tags: account.tags,
+      parentId: account.parentId,
+      parentSpendLimit: account.parentSpendLimit !== null ? account.parentSpendLimit.toString() : null,
+      status: account.status,
+      closedAt: account.closedAt,
+      balance: balance.toString(),
+      totalBalance: totalBalance.toString(),
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt
+    };
+  }
+
+  /**
+   * Freezes or unfreezes an account. Frozen accounts can receive but not spend.
+   */
+  async setAccountFrozen(id: string, frozen: boolean): Promise<AccountSummary> {
+    try {
+      await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const locked = await ledgerService.lockAccount(tx, id);
+        const account = locked ? await tx.account.findUnique({ where: { id } }) : null;
+
+        if (!account || account.kind !== AccountKind.USER) {
+          throw new NotFoundError(`Account with ID ${id} not found`);
+        }
+        if (account.status === AccountStatus.CLOSED) {
+          throw new ConflictError(`Account ${id} is closed`);
+        }
+
+        await tx.account.update({
+          where: { id },
+          data: { status: frozen ? AccountStatus.FROZEN : AccountStatus.ACTIVE }
+        });
+      });
+
+      return (await this.getAccount(id)) as AccountSummary;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Closes an account. The account must have no pending transactions and no open sub-accounts;
+   * unpaid invoices that have expired are marked FAILED first, as they can no longer settle.
+   * A non-zero balance must be swept to another account, which happens in the same database
+   * transaction as a SWEEP transfer. Closed accounts can neither receive nor spend.
+   */
+  async closeAccount(id: string, sweepToAccountId?: string): Promise<{ account: AccountSummary; sweep: TransferSummary | null }> {
+    try {
+      const sweep = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const accountIds = sweepToAccountId ? [id, sweepToAccountId] : [id];
+        for (const accountId of accountIds.sort()) {
+          await ledgerService.lockAccount(tx, accountId);
+        }
+
+        const account = await tx.account.findUnique({ where: { id } });
+        if (!account || account.kind !== AccountKind.USER) {
+          throw new NotFoundError(`Account with ID ${id} not found`);
+        }
+        if (account.status === AccountStatus.CLOSED) {
+          throw new ConflictError(`Account ${id} is already closed`);
+        }
+
+        await tx.lightningTransaction.updateMany({
+          where: {
+            accountId: id,
+            type: TransactionType.INCOMING,
+            status: TransactionStatus.PENDING,
+            expiresAt: { lt: new Date(Date.now() - INVOICE_EXPIRY_GRACE_MS) }
+          },
+          data: { status: TransactionStatus.FAILED, failureReason: 'Invoice expired' }
+        });
+
+        const pending = await tx.lightningTransaction.count({
+          where: { accountId: id, status: TransactionStatus.PENDING }
+        });
+        if (pending > 0) {
+          throw new ConflictError(`Account ${id} has ${pending} pending transactions and cannot be closed until they settle or fail`);
+        }
+
+        const openChildren = await tx.account.count({
+          where: { parentId: id, status: { not: AccountStatus.CLOSED } }
+        });
+        if (openChildren > 0) {
+          throw new ConflictError(`Account ${id} has ${openChildren} open sub-accounts that must be closed first`);
+        }
+
+        const balance = await ledgerService.getBalance(tx, id);
+        let created: Transfer | null = null;
+
+        if (balance < BigInt(0)) {
+          throw new UnprocessableEntityError(`Account ${id} has a negative balance of ${balance} and cannot be closed`);
+        }
+
+        if (balance > BigInt(0)) {
+          if (!sweepToAccountId) {
+            throw new UnprocessableEntityError(`Account ${id} has a balance of ${balance}; close it with sweepToAccountId to move the balance to another account`, {
+              sweepToAccountId: 'Required when the account has a balance'
+            });
+          }
+
+          const target = await tx.account.findUnique({ where: { id: sweepToAccountId } });
+          if (!target) {
+            throw new NotFoundError(`Account with ID ${sweepToAccountId} not found`);
+          }
+          if (target.id === id || target.kind !== AccountKind.USER || target.status === AccountStatus.CLOSED) {
+            throw new ValidationError('Invalid sweep account', { sweepToAccountId: 'Must be another open user account' });
+          }
+
+          created = await tx.transfer.create({
+            data: {
+              fromAccountId: id,
+              toAccountId: sweepToAccountId,
+              amount: balance.toString(),
+              memo: `Balance swept when account ${id} was closed`,
+              kind: TransferKind.SWEEP
+            }
+          });
+
+          await ledgerService.postEntry(tx, {
+            type: JournalEntryType.TRANSFER,
+            transferId: created.id,
+            memo: created.memo || undefined,
+            postings: [
+              { accountId: id, side: PostingSide.DEBIT, amount: balance },
+              { accountId: sweepToAccountId, side: PostingSide.CREDIT, amount: balance }
+            ]
+          });
+        }
+
+        await tx.account.update({
+          where: { id },
+          data: { status: AccountStatus.CLOSED, closedAt: new Date() }
+        });
+
+        return created;
+      });
+
+      return {
+        account: (await this.getAccount(id)) as AccountSummary,
+        sweep: sweep ? this.toTransferSummary(sweep) : null
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
   /**
    * Creates a new lightning transaction
    */
@@ -145,169 +506,1420 @@ export class DbService {
       throw new NotFoundError(`Account with ID ${input.accountId} not found`);
     }
     
-    // Check if transaction with this rHash already exists
+    // Check if a transaction with this rHash already exists in the same direction
     const existingTransaction = await this.prisma.lightningTransaction.findUnique({
-      where: { rHash: input.rHash }
+      where: { rHash_type: { rHash: input.rHash, type: input.type } }
     });
     
     if (existingTransaction) {
-      throw new Error(`Transaction with payment hash ${input.rHash} already exists`);
+      throw new Error(`${input.type} transaction with payment hash ${input.rHash} already exists`);
     }
 
-    const transaction = await this.prisma.lightningTransaction.create({
-      data: {
-        accountId: input.accountId,
-        rHash: input.rHash,
-        amount: input.amount,
-        type: input.type,
-        status: input.status || TransactionStatus.PENDING,
-        memo: input.memo || null
-      }
+    // Transactions recorded as already complete are posted to the ledger straight away
+    const transaction = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.lightningTransaction.create({
+        data: {
+          accountId: input.accountId,
+          rHash: input.rHash,
+          amount: input.amount,
+          feeReserve: input.feeReserve || '0',
+          type: input.type,
+          status: input.status || TransactionStatus.PENDING,
+          memo: input.memo || null,
+          expiresAt: input.expiresAt || null
+        }
+      });
+
+      await ledgerService.postStatusChange(tx, created, null, created.status);
+
+      return created;
     });
 
-    return {
-      id: transaction.id,
-      accountId: transaction.accountId,
-      rHash: transaction.rHash,
-      amount: transaction.amount,
-      type: transaction.type,
-      status: transaction.status,
-      memo: transaction.memo,
-      createdAt: transaction.createdAt,
-      updatedAt: transaction.updatedAt
-    };
+    return this.toTransactionSummary(transaction);
   }
 
   /**
-   * Gets a transaction by rHash
+   * Gets a transaction by rHash.
+   * An internally settled payment has both an INCOMING and an OUTGOING row for the
+   * same hash; pass the type to pick one, otherwise the oldest row is returned.
    */
-  async getTransactionByRHash(rHash: string): Promise<TransactionSummary | null> {
-    const transaction = await this.prisma.lightningTransaction.findUnique({
-      where: { rHash }
+  async getTransactionByRHash(rHash: string, type?: TransactionType): Promise<TransactionSummary | null> {
+    const transaction = await this.prisma.lightningTransaction.findFirst({
+      where: { rHash, ...(type && { type }) },
+      orderBy: { createdAt: 'asc' }
     });
 
     if (!transaction) {
       return null;
     }
 
-    return {
-      id: transaction.id,
-      accountId: transaction.accountId,
-      rHash: transaction.rHash,
-      amount: transaction.amount,
-      type: transaction.type,
-      status: transaction.status,
-      memo: transaction.memo,
-      createdAt: transaction.createdAt,
-      updatedAt: transaction.updatedAt
-    };
+    return this.toTransactionSummary(transaction);
   }
 
   /**
    * Updates a transaction status
    */
-  async updateTransactionStatus(rHash: string, status: TransactionStatus): Promise<TransactionSummary> {
-    const transaction = await this.prisma.lightningTransaction.findUnique({
-      where: { rHash }
+  async updateTransactionStatus(rHash: string, status: TransactionStatus, type?: TransactionType): Promise<TransactionSummary> {
+    const transaction = await this.prisma.lightningTransaction.findFirst({
+      where: { rHash, ...(type && { type }) },
+      orderBy: { createdAt: 'asc' }
     });
     
     if (!transaction) {
       throw new NotFoundError(`Transaction with payment hash ${rHash} not found`);
     }
     
-    const updatedTransaction = await this.prisma.lightningTransaction.update({
-      where: { rHash },
-      data: { status }
+    const updatedTransaction = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await tx.lightningTransaction.update({
+        where: { id: transaction.id },
+        data: { status }
+      });
+
+      await ledgerService.postStatusChange(tx, updated, transaction.status, status);
+
+      return updated;
     });
     
-    return {
-      id: updatedTransaction.id,
-      accountId: updatedTransaction.accountId,
-      rHash: updatedTransaction.rHash,
-      amount: updatedTransaction.amount,
-      type: updatedTransaction.type,
-      status: updatedTransaction.status,
-      memo: updatedTransaction.memo,
-      createdAt: updatedTransaction.createdAt,
-      updatedAt: updatedTransaction.updatedAt
-    };
+    return this.toTransactionSummary(updatedTransaction);
   }
 
   /**
-   * Gets all transactions
+   * Records a PENDING outgoing payment after checking that the account can cover
+   * the amount plus its fee reserve and that its spending policy allows the payment.
+   * When another user account sponsors the fee, the fee reserve is held against that
+   * account instead. The accounts are locked while checking so concurrent payments
+   * cannot both pass against the same funds or limits. A payment hash whose last
+   * payment failed can be paid again.
    */
-  async getAllTransactions(limit = 20, page = 1): Promise<{
-    transactions: TransactionSummary[];
-    pagination: {
-      total: number;
-      page: number;
-      limit: number;
-      pages: number;
-    };
-  }> {
-    const skip = (page - 1) * limit;
-    const totalCount = await this.prisma.lightningTransaction.count();
-    
-    const transactions = await this.prisma.lightningTransaction.findMany({
-      take: limit,
-      skip,
-      orderBy: { createdAt: 'desc' }
-    });
+  async reserveOutgoingPayment(input: CreateLightningTransactionInput, destination: string | null = null): Promise<TransactionSummary> {
+    try {
+      const transaction = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const feeAccountId = input.feeAccountId && input.feeAccountId !== input.accountId ? input.feeAccountId : null;
+        const sponsor = feeAccountId ? await tx.account.findUnique({ where: { id: feeAccountId } }) : null;
+        if (feeAccountId && !sponsor) {
+          throw new UnprocessableEntityError(`Fee sponsor account ${feeAccountId} not found`);
+        }
 
-    const transactionSummaries = transactions.map((tx: any) => ({
-      id: tx.id,
-      accountId: tx.accountId,
-      rHash: tx.rHash,
-      amount: tx.amount,
-      type: tx.type,
-      status: tx.status,
-      memo: tx.memo,
-      createdAt: tx.createdAt,
-      updatedAt: tx.updatedAt
-    }));
+        // Fees booked as a node expense need no reservation, so only user sponsors are locked
+        const userSponsor = sponsor && sponsor.kind === AccountKind.USER ? sponsor : null;
 
-    return {
-      transactions: transactionSummaries,
-      pagination: {
-        total: totalCount,
-        page,
-        limit,
-        pages: Math.ceil(totalCount / limit)
-      }
-    };
-  }
+        const payer = await this.lockPayer(tx, input.accountId, userSponsor ? [userSponsor.id] : []);
+        if (!payer) {
+          throw new NotFoundError(`Account with ID ${input.accountId} not found`);
+        }
 
-  /**
-   * Gets transactions for an account
-   */
-  async getTransactionsByAccountId(accountId: string, limit = 20, page = 1) {
-    try {
-      const skip = (page - 1) * limit;
-      const [transactions, total] = await Promise.all([
-        this.prisma.lightningTransaction.findMany({
-          where: { accountId },
-          include: { account: true },
-          orderBy: { createdAt: 'desc' },
-          skip,
-          take: limit
-        }),
-        this.prisma.lightningTransaction.count({
-          where: { accountId }
-        })
-      ]);
+        const feeReserve = BigInt(input.feeReserve || '0');
+        await this.enforceSpendingPolicy(tx, input.accountId, BigInt(input.amount), destination, feeAccountId ? BigInt(0) : feeReserve);
+
+        const existing = await tx.lightningTransaction.findUnique({
+          where: { rHash_type: { rHash: input.rHash, type: TransactionType.OUTGOING } }
+        });
+        if (existing && existing.status !== TransactionStatus.FAILED) {
+          throw new ConflictError(`Outgoing payment with payment hash ${input.rHash} already exists`);
+        }
+
+        const required = BigInt(input.amount) + (feeAccountId ? BigInt(0) : feeReserve);
+        const parentDraw = await this.drawFromParent(tx, payer, required);
+
+        const available = await ledgerService.getAvailableBalance(tx, input.accountId);
+        if (available < required) {
+          throw new UnprocessableEntityError(`Insufficient balance: required ${required}, available ${available}`);
+        }
+
+        if (userSponsor) {
+          await this.assertSponsorCanCover(tx, userSponsor.id, feeReserve);
+        }
+
+        const data = {
+          accountId: input.accountId,
+          amount: input.amount,
+          feeReserve: input.feeReserve || '0',
+          feeAccountId,
+          status: TransactionStatus.PENDING,
+          memo: input.memo || null,
+          parentDrawId: parentDraw ? parentDraw.id : null
+        };
+
+        // A failed payment posted nothing to the ledger, so a retry takes over its row. createdAt
+        // is reset so the retry counts towards the spending policy windows it is made in.
+        if (existing) {
+          return tx.lightningTransaction.update({
+            where: { id: existing.id },
+            data: { ...data, fee: '0', failureReason: null, createdAt: new Date() }
+          });
+        }
+
+        return tx.lightningTransaction.create({
+          data: { ...data, rHash: input.rHash, type: TransactionType.OUTGOING }
+        });
+      });
+
+      return this.toTransactionSummary(transaction);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Locks an account that is about to pay, together with its parent if it may draw on the
+   * parent's balance and any other accounts the payment draws on, such as a fee sponsor.
+   * Locks are taken in a stable order so concurrent transfers cannot deadlock.
+   * Throws a ConflictError if the account is frozen or closed.
+   */
+  private async lockPayer(tx: Prisma.TransactionClient, accountId: string, otherAccountIds: string[] = []): Promise<Account | null> {
+    const account = await tx.account.findUnique({
+      where: { id: accountId }
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const accountIds = new Set([account.id, ...otherAccountIds]);
+    if (account.parentId && account.parentSpendLimit !== null) {
+      accountIds.add(account.parentId);
+    }
+    for (const id of Array.from(accountIds).sort()) {
+      await ledgerService.lockAccount(tx, id);
+    }
+
+    // Read the account again under the lock so a concurrent freeze or close is seen
+    const locked = await tx.account.findUnique({
+      where: { id: accountId }
+    });
+
+    if (locked) {
+      this.assertAccountCanSpend(locked);
+    }
+
+    return locked;
+  }
+
+  /**
+   * Throws unless an account sponsoring a payment's routing fee is active and has the fee reserve
+   * available. The sponsor must already be locked with lockPayer.
+   */
+  private async assertSponsorCanCover(tx: Prisma.TransactionClient, sponsorId: string, feeReserve: bigint): Promise<void> {
+    const sponsor = await tx.account.findUnique({
+      where: { id: sponsorId }
+    });
+    if (!sponsor) {
+      throw new UnprocessableEntityError(`Fee sponsor account ${sponsorId} not found`);
+    }
+
+    this.assertAccountCanSpend(sponsor);
+
+    const available = await ledgerService.getAvailableBalance(tx, sponsorId);
+    if (available < feeReserve) {
+      throw new UnprocessableEntityError(`Insufficient balance in fee sponsor account ${sponsorId}: required ${feeReserve}, available ${available}`);
+    }
+  }
+
+  /**
+   * Throws a ConflictError unless an account is active
+   */
+  private assertAccountCanSpend(account: Account): void {
+    if (account.status !== AccountStatus.ACTIVE) {
+      throw new ConflictError(`Account ${account.id} is ${account.status.toLowerCase()} and cannot spend`);
+    }
+  }
+
+  /**
+   * Moves whatever an account is short of a payment from its parent, if it may draw on the parent.
+   * Draws are recorded as PARENT_DRAW transfers. The account's outstanding draws (draws minus
+   * everything it has transferred back to the parent) may not go over its parentSpendLimit.
+   * Both accounts must already be locked with lockPayer. Returns the draw, if one was needed.
+   */
+  private async drawFromParent(tx: Prisma.TransactionClient, payer: Account, required: bigint): Promise<Transfer | null> {
+    if (!payer.parentId || payer.parentSpendLimit === null) {
+      return null;
+    }
+
+    const available = await ledgerService.getAvailableBalance(tx, payer.id);
+    if (available >= required) {
+      return null;
+    }
+
+    const shortfall = required - available;
+
+    const rows = await tx.$queryRaw<Array<{ outstanding: bigint }>>`
+      SELECT GREATEST(COALESCE(SUM(CASE WHEN "fromAccountId" = ${payer.parentId} THEN CAST("amount" AS BIGINT) ELSE -CAST("amount" AS BIGINT) END), 0), 0)::BIGINT AS "outstanding"
+      FROM "transfers"
+      WHERE ("fromAccountId" = ${payer.parentId} AND "toAccountId" = ${payer.id} AND "kind" = 'PARENT_DRAW')
+         OR ("fromAccountId" = ${payer.id} AND "toAccountId" = ${payer.parentId})
+    `;
+
+    const outstanding = rows[0]?.outstanding || BigInt(0);
+    if (outstanding + shortfall > payer.parentSpendLimit) {
+      throw new UnprocessableEntityError(
+        `Insufficient balance: required ${required}, available ${available}, and only ${payer.parentSpendLimit - outstanding > 0 ? payer.parentSpendLimit - outstanding : 0} more can be drawn from the parent account`
+      );
+    }
+
+    const parent = await tx.account.findUnique({
+      where: { id: payer.parentId }
+    });
+    if (parent) {
+      this.assertAccountCanSpend(parent);
+    }
+
+    const parentAvailable = await ledgerService.getAvailableBalance(tx, payer.parentId);
+    if (parentAvailable < shortfall) {
+      throw new UnprocessableEntityError(
+        `Insufficient balance: required ${required}, available ${available}, and the parent account has only ${parentAvailable} available`
+      );
+    }
+
+    const draw = await tx.transfer.create({
+      data: {
+        fromAccountId: payer.parentId,
+        toAccountId: payer.id,
+        amount: shortfall.toString(),
+        memo: 'Drawn from parent account to cover a payment',
+        kind: TransferKind.PARENT_DRAW
+      }
+    });
+
+    await ledgerService.postEntry(tx, {
+      type: JournalEntryType.TRANSFER,
+      transferId: draw.id,
+      memo: draw.memo || undefined,
+      postings: [
+        { accountId: payer.parentId, side: PostingSide.DEBIT, amount: shortfall },
+        { accountId: payer.id, side: PostingSide.CREDIT, amount: shortfall }
+      ]
+    });
+
+    logger.info(`Account ${payer.id} drew ${shortfall} sats from parent account ${payer.parentId}`);
+
+    return draw;
+  }
+
+  /**
+   * Moves a PARENT_DRAW back to the parent once the payment it covered has failed, as a
+   * PARENT_DRAW_RETURN transfer, which also takes it off the account's outstanding draws.
+   * Only what the account still has available is moved back. Both accounts must already be locked.
+   */
+  private async returnParentDraw(tx: Prisma.TransactionClient, draw: Transfer): Promise<void> {
+    const available = await ledgerService.getAvailableBalance(tx, draw.toAccountId);
+    const amount = available < BigInt(draw.amount) ? available : BigInt(draw.amount);
+    if (amount <= BigInt(0)) {
+      return;
+    }
+
+    const transfer = await tx.transfer.create({
+      data: {
+        fromAccountId: draw.toAccountId,
+        toAccountId: draw.fromAccountId,
+        amount: amount.toString(),
+        memo: 'Returned to parent account after the payment it covered failed',
+        kind: TransferKind.PARENT_DRAW_RETURN
+      }
+    });
+
+    await ledgerService.postEntry(tx, {
+      type: JournalEntryType.TRANSFER,
+      transferId: transfer.id,
+      memo: transfer.memo || undefined,
+      postings: [
+        { accountId: draw.toAccountId, side: PostingSide.DEBIT, amount },
+        { accountId: draw.fromAccountId, side: PostingSide.CREDIT, amount }
+      ]
+    });
+
+    logger.info(`Account ${draw.toAccountId} returned ${amount} sats to parent account ${draw.fromAccountId}`);
+  }
+
+  /**
+   * Gets an account's settled, pending and available balances
+   */
+  async getAccountBalances(accountId: string): Promise<{
+    settled: string;
+    pending_incoming: string;
+    pending_outgoing: string;
+    available: string;
+  } | null> {
+    const account = await this.prisma.account.findUnique({
+      where: { id: accountId }
+    });
+
+    if (!account) {
+      return null;
+    }
+
+    const breakdown = await ledgerService.getBalanceBreakdown(this.prisma, accountId);
+
+    return {
+      settled: breakdown.settled.toString(),
+      pending_incoming: breakdown.pendingIncoming.toString(),
+      pending_outgoing: breakdown.pendingOutgoing.toString(),
+      available: breakdown.available.toString()
+    };
+  }
+
+  /**
+   * Gets an account's settled balance as it stood at a point in time, or null if the account does not exist
+   */
+  async getAccountBalanceAsOf(accountId: string, asOf: Date): Promise<string | null> {
+    try {
+      const account = await this.prisma.account.findUnique({
+        where: { id: accountId }
+      });
+
+      if (!account) {
+        return null;
+      }
+
+      const balance = await ledgerService.getBalanceAsOf(this.prisma, accountId, asOf);
+      return balance.toString();
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Marks a pending outgoing payment as complete and records the routing fee LND paid for it.
+   * The fee is charged to the account its fee reserve was held against: the sponsor, or the payer.
+   * Returns null when the payment had already been resolved, so callers can skip notifying twice.
+   */
+  async completeOutgoingPayment(rHash: string, fee: string): Promise<TransactionSummary | null> {
+    const updatedTransaction = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Only a PENDING row can complete; the conditional update makes concurrent trackers safe
+      const { count } = await tx.lightningTransaction.updateMany({
+        where: { rHash, type: TransactionType.OUTGOING, status: TransactionStatus.PENDING },
+        data: { status: TransactionStatus.COMPLETE, fee }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.lightningTransaction.findUniqueOrThrow({
+        where: { rHash_type: { rHash, type: TransactionType.OUTGOING } }
+      });
+
+      await ledgerService.postStatusChange(tx, updated, TransactionStatus.PENDING, updated.status);
+      await ledgerService.postTransactionFee(tx, updated, BigInt(fee), updated.feeAccountId || updated.accountId);
+
+      return updated;
+    });
+
+    return updatedTransaction ? this.toTransactionSummary(updatedTransaction) : null;
+  }
+
+  /**
+   * Marks a pending outgoing payment as failed, releasing its reservation and returning
+   * whatever was drawn from the parent account to cover it.
+   * Returns null when the payment had already been resolved.
+   */
+  async failOutgoingPayment(rHash: string, failureReason: string): Promise<TransactionSummary | null> {
+    const failedTransaction = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const transaction = await tx.lightningTransaction.findUnique({
+        where: { rHash_type: { rHash, type: TransactionType.OUTGOING } }
+      });
+      const draw = transaction && transaction.parentDrawId
+        ? await tx.transfer.findUnique({ where: { id: transaction.parentDrawId } })
+        : null;
+
+      // Lock both accounts before the row, in the same order as lockPayer, so a concurrent retry cannot deadlock
+      if (draw) {
+        for (const id of [draw.fromAccountId, draw.toAccountId].sort()) {
+          await ledgerService.lockAccount(tx, id);
+        }
+      }
+
+      // Only a PENDING row can fail; the conditional update makes concurrent trackers safe
+      const { count } = await tx.lightningTransaction.updateMany({
+        where: { rHash, type: TransactionType.OUTGOING, status: TransactionStatus.PENDING },
+        data: { status: TransactionStatus.FAILED, failureReason }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (draw) {
+        await this.returnParentDraw(tx, draw);
+      }
+
+      return tx.lightningTransaction.findUniqueOrThrow({
+        where: { rHash_type: { rHash, type: TransactionType.OUTGOING } }
+      });
+    });
+
+    return failedTransaction ? this.toTransactionSummary(failedTransaction) : null;
+  }
+
+  /**
+   * Gets every outgoing payment still waiting for a final result from LND
+   */
+  async getPendingOutgoingTransactions(): Promise<TransactionSummary[]> {
+    const transactions = await this.prisma.lightningTransaction.findMany({
+      where: { type: TransactionType.OUTGOING, status: TransactionStatus.PENDING },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return transactions.map((tx: any) => this.toTransactionSummary(tx));
+  }
+
+  /**
+   * Gets the transactions of one type for a set of payment hashes
+   */
+  async getTransactionsByRHashes(rHashes: string[], type: TransactionType): Promise<TransactionSummary[]> {
+    try {
+      if (rHashes.length === 0) {
+        return [];
+      }
+      
+      const transactions = await this.prisma.lightningTransaction.findMany({
+        where: { rHash: { in: rHashes }, type }
+      });
       
+      return transactions.map((transaction: LightningTransaction) => this.toTransactionSummary(transaction));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets the journal entries posted for a transaction. An internally settled payment has a row
+   * for each side; when accountIds is given, only the entries of those accounts' rows are returned.
+   */
+  async getJournalEntriesByRHash(rHash: string, accountIds?: string[]): Promise<JournalEntrySummary[]> {
+    const transactions = await this.prisma.lightningTransaction.findMany({
+      where: accountIds ? { rHash, accountId: { in: accountIds } } : { rHash }
+    });
+
+    if (transactions.length === 0) {
+      throw new NotFoundError(`Transaction with payment hash ${rHash} not found`);
+    }
+
+    return ledgerService.getEntriesForTransactions(
+      this.prisma,
+      transactions.map((tx: LightningTransaction) => tx.id)
+    );
+  }
+
+  /**
+   * Settles a payment to an invoice issued by this node entirely inside the ledger.
+   * Records the payer's OUTGOING row and completes the payee's PENDING INCOMING row
+   * in one database transaction. beforeSettle runs once the payment has passed every check,
+   * with the accounts still locked; if it throws, nothing is settled.
+   */
+  async settleInternalPayment(
+    payerAccountId: string,
+    rHash: string,
+    memo?: string,
+    destination: string | null = null,
+    beforeSettle?: () => Promise<void>
+  ): Promise<{
+    outgoing: TransactionSummary;
+    incoming: TransactionSummary;
+  }> {
+    try {
+      const result = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const incoming = await tx.lightningTransaction.findUnique({
+          where: { rHash_type: { rHash, type: TransactionType.INCOMING } }
+        });
+
+        if (!incoming || incoming.status !== TransactionStatus.PENDING) {
+          throw new ConflictError(`No pending invoice with payment hash ${rHash} to settle internally`);
+        }
+
+        if (incoming.accountId === payerAccountId) {
+          throw new ValidationError('An account cannot pay its own invoice', { accountId: 'Payer and payee are the same account' });
+        }
+
+        if (BigInt(incoming.amount) <= BigInt(0)) {
+          throw new ValidationError('Invoices without an amount cannot be paid internally', { paymentRequest: 'Must specify an amount' });
+        }
+
+        const payer = await this.lockPayer(tx, payerAccountId);
+        if (!payer) {
+          throw new NotFoundError(`Account with ID ${payerAccountId} not found`);
+        }
+
+        const amount = BigInt(incoming.amount);
+        await this.enforceSpendingPolicy(tx, payerAccountId, amount, destination);
+        await this.drawFromParent(tx, payer, amount);
+
+        const balance = await ledgerService.getAvailableBalance(tx, payerAccountId);
+        if (balance < amount) {
+          throw new UnprocessableEntityError(`Insufficient balance: required ${amount}, available ${balance}`);
+        }
+
+        if (beforeSettle) {
+          await beforeSettle();
+        }
+
+        const outgoing = await tx.lightningTransaction.create({
+          data: {
+            accountId: payerAccountId,
+            rHash,
+            amount: incoming.amount,
+            type: TransactionType.OUTGOING,
+            status: TransactionStatus.COMPLETE,
+            memo: memo || incoming.memo
+          }
+        });
+        await ledgerService.postStatusChange(tx, outgoing, null, outgoing.status);
+
+        const settled = await tx.lightningTransaction.update({
+          where: { id: incoming.id },
+          data: { status: TransactionStatus.COMPLETE }
+        });
+        await ledgerService.postStatusChange(tx, settled, incoming.status, settled.status);
+
+        return { outgoing, incoming: settled };
+      });
+
       return {
-        transactions: transactions.map((tx: any) => ({
-          id: tx.id,
-          accountId: tx.accountId,
-          accountName: tx.account.name,
-          rHash: tx.rHash,
-          amount: tx.amount,
-          type: tx.type,
-          status: tx.status,
-          memo: tx.memo || undefined,
-          createdAt: tx.createdAt
-        })),
+        outgoing: this.toTransactionSummary(result.outgoing),
+        incoming: this.toTransactionSummary(result.incoming)
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
+  private toTransactionSummary(transaction: any): TransactionSummary {
+    return {
+      id: transaction.id,
+      accountId: transaction.accountId,
+      rHash: transaction.rHash,
+      amount: transaction.amount,
+      type: transaction.type,
+      status: transaction.status,
+      memo: transaction.memo,
+      fee: transaction.fee,
+      failureReason: transaction.failureReason,
+      createdAt: transaction.createdAt,
+      updatedAt: transaction.updatedAt
+    };
+  }
+
+  /**
+   * Checks that every journal entry in the ledger sums to zero
+   */
+  async verifyLedger(): Promise<{ balanced: boolean; unbalancedEntries: Array<{ journalEntryId: string; imbalance: string }> }> {
+    try {
+      const unbalancedEntries = await ledgerService.findUnbalancedEntries(this.prisma);
+
+      if (unbalancedEntries.length > 0) {
+        logger.error(`Ledger verification found ${unbalancedEntries.length} unbalanced journal entries`);
+      }
+
+      return {
+        balanced: unbalancedEntries.length === 0,
+        unbalancedEntries
+      };
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Checks the maintained account balances against the sum of every account's postings
+   */
+  async verifyBalances(): Promise<{ consistent: boolean; mismatches: BalanceMismatch[] }> {
+    try {
+      const mismatches = await ledgerService.findBalanceMismatches(this.prisma);
+
+      if (mismatches.length > 0) {
+        logger.error(`Balance verification found ${mismatches.length} accounts whose balance does not match their postings`);
+      }
+
+      return {
+        consistent: mismatches.length === 0,
+        mismatches
+      };
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Recomputes maintained account balances that do not match their postings.
+   * Returns the balances that were corrected.
+   */
+  async repairBalances(): Promise<BalanceMismatch[]> {
+    try {
+      return await this.prisma.$transaction(
+        (tx: Prisma.TransactionClient) => ledgerService.repairBalances(tx),
+        // Summing every posting can take a while on a large ledger
+        { timeout: 5 * 60 * 1000 }
+      );
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Writes each account's closing balance for the day ending at closedAt.
+   * Returns the number of snapshots written.
+   */
+  async createBalanceSnapshots(closedAt: Date): Promise<number> {
+    try {
+      return await this.prisma.$transaction(
+        (tx: Prisma.TransactionClient) => ledgerService.writeBalanceSnapshots(tx, closedAt),
+        { timeout: 5 * 60 * 1000 }
+      );
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Rewrites every balance snapshot that no longer matches the postings before its closedAt.
+   * Returns the number of snapshots rewritten.
+   */
+  async repairBalanceSnapshots(): Promise<number> {
+    try {
+      return await this.prisma.$transaction(
+        (tx: Prisma.TransactionClient) => ledgerService.repairBalanceSnapshots(tx),
+        // Every snapshot is checked against the postings before it
+        { timeout: 5 * 60 * 1000 }
+      );
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets the end of the most recent day that balance snapshots were written for, or null if there are none
+   */
+  async getLatestBalanceSnapshotTime(): Promise<Date | null> {
+    try {
+      const latest = await this.prisma.accountBalanceSnapshot.findFirst({
+        orderBy: { closedAt: 'desc' },
+        select: { closedAt: true }
+      });
+
+      return latest ? latest.closedAt : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Moves funds from one account to another without touching LND.
+   * Returns the existing transfer when the idempotency key has been seen before.
+   */
+  async createTransfer(input: CreateTransferInput): Promise<{ transfer: TransferSummary; created: boolean }> {
+    if (input.idempotencyKey) {
+      const existing = await this.prisma.transfer.findUnique({
+        where: { idempotencyKey: input.idempotencyKey }
+      });
+
+      if (existing) {
+        if (
+          existing.fromAccountId !== input.fromAccountId ||
+          existing.toAccountId !== input.toAccountId ||
+          existing.amount !== input.amount
+        ) {
+          throw new ConflictError(`Idempotency key ${input.idempotencyKey} was already used for a different transfer`);
+        }
+
+        return { transfer: this.toTransferSummary(existing), created: false };
+      }
+    }
+
+    const amount = BigInt(input.amount);
+
+    try {
+      const transfer = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Lock both accounts in a stable order so concurrent transfers cannot deadlock
+        for (const accountId of [input.fromAccountId, input.toAccountId].sort()) {
+          await ledgerService.lockAccount(tx, accountId);
+        }
+
+        const accounts = await tx.account.findMany({
+          where: { id: { in: [input.fromAccountId, input.toAccountId] } }
+        });
+
+        for (const accountId of [input.fromAccountId, input.toAccountId]) {
+          const account = accounts.find((acc: any) => acc.id === accountId);
+          if (!account) {
+            throw new NotFoundError(`Account with ID ${accountId} not found`);
+          }
+          if (account.kind !== AccountKind.USER) {
+            throw new ValidationError('Transfers between system accounts are not allowed', { accountId: `Account ${accountId} is a system account` });
+          }
+          if (accountId === input.fromAccountId) {
+            this.assertAccountCanSpend(account);
+          } else if (account.status === AccountStatus.CLOSED) {
+            throw new ConflictError(`Account ${accountId} is closed and cannot receive`);
+          }
+        }
+
+        const balance = await ledgerService.getAvailableBalance(tx, input.fromAccountId);
+        if (balance < amount) {
+          throw new UnprocessableEntityError(`Insufficient balance: required ${amount}, available ${balance}`);
+        }
+
+        const created = await tx.transfer.create({
+          data: {
+            fromAccountId: input.fromAccountId,
+            toAccountId: input.toAccountId,
+            amount: input.amount,
+            memo: input.memo || null,
+            idempotencyKey: input.idempotencyKey || null
+          }
+        });
+
+        await ledgerService.postEntry(tx, {
+          type: JournalEntryType.TRANSFER,
+          transferId: created.id,
+          memo: input.memo,
+          postings: [
+            { accountId: input.fromAccountId, side: PostingSide.DEBIT, amount },
+            { accountId: input.toAccountId, side: PostingSide.CREDIT, amount }
+          ]
+        });
+
+        return created;
+      });
+
+      return { transfer: this.toTransferSummary(transfer), created: true };
+    } catch (error: any) {
+      // A concurrent request with the same idempotency key won the race
+      if (error?.code === 'P2002' && input.idempotencyKey) {
+        return this.createTransfer(input);
+      }
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets a transfer by ID
+   */
+  async getTransferById(id: string): Promise<TransferSummary | null> {
+    const transfer = await this.prisma.transfer.findUnique({
+      where: { id }
+    });
+
+    return transfer ? this.toTransferSummary(transfer) : null;
+  }
+
+  /**
+   * Gets the transfers into or out of an account
+   */
+  async getTransfersByAccountId(accountId: string, limit = 20, page = 1) {
+    try {
+      const skip = (page - 1) * limit;
+      const where = {
+        OR: [{ fromAccountId: accountId }, { toAccountId: accountId }]
+      };
+      const [transfers, total] = await Promise.all([
+        this.prisma.transfer.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        this.prisma.transfer.count({ where })
+      ]);
+
+      return {
+        transfers: transfers.map((transfer: Transfer) => this.toTransferSummary(transfer)),
+        pagination: {
+          total,
+          page,
+          limit,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  private toTransferSummary(transfer: Transfer): TransferSummary {
+    return {
+      id: transfer.id,
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      amount: transfer.amount,
+      memo: transfer.memo,
+      kind: transfer.kind,
+      idempotencyKey: transfer.idempotencyKey,
+      createdAt: transfer.createdAt
+    };
+  }
+
+  /**
+   * Maps a payment destination pubkey to an account
+   */
+  async createPaymentDestination(input: PaymentDestinationInput): Promise<PaymentDestinationSummary> {
+    try {
+      const account = await this.prisma.account.findUnique({
+        where: { id: input.accountId }
+      });
+      
+      if (!account || account.kind !== AccountKind.USER) {
+        throw new NotFoundError(`Account with ID ${input.accountId} not found`);
+      }
+      
+      const existing = await this.prisma.paymentDestination.findUnique({
+        where: { pubkey: input.pubkey }
+      });
+      
+      if (existing) {
+        throw new ConflictError(`Destination ${input.pubkey} is already mapped to account ${existing.accountId}`);
+      }
+      
+      const destination = await this.prisma.paymentDestination.create({
+        data: {
+          pubkey: input.pubkey,
+          accountId: input.accountId,
+          description: input.description || null
+        }
+      });
+      
+      return this.toPaymentDestinationSummary(destination);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets payment destination mappings, optionally for one account
+   */
+  async getPaymentDestinations(accountId?: string): Promise<PaymentDestinationSummary[]> {
+    try {
+      const destinations = await this.prisma.paymentDestination.findMany({
+        where: accountId ? { accountId } : {},
+        orderBy: { createdAt: 'asc' }
+      });
+      
+      return destinations.map((destination: PaymentDestination) => this.toPaymentDestinationSummary(destination));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets a payment destination mapping by ID
+   */
+  async getPaymentDestinationById(id: string): Promise<PaymentDestinationSummary | null> {
+    try {
+      const destination = await this.prisma.paymentDestination.findUnique({
+        where: { id }
+      });
+      
+      return destination ? this.toPaymentDestinationSummary(destination) : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets the payment destination mapping for a pubkey
+   */
+  async getPaymentDestinationByPubkey(pubkey: string): Promise<PaymentDestinationSummary | null> {
+    try {
+      const destination = await this.prisma.paymentDestination.findUnique({
+        where: { pubkey }
+      });
+      
+      return destination ? this.toPaymentDestinationSummary(destination) : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Deletes a payment destination mapping
+   */
+  async deletePaymentDestination(id: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.paymentDestination.deleteMany({
+        where: { id }
+      });
+      
+      return result.count > 0;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  private toPaymentDestinationSummary(destination: PaymentDestination): PaymentDestinationSummary {
+    return {
+      id: destination.id,
+      pubkey: destination.pubkey,
+      accountId: destination.accountId,
+      description: destination.description,
+      createdAt: destination.createdAt
+    };
+  }
+
+  /**
+   * Gets all transactions, optionally only those of the given accounts
+   */
+  async getAllTransactions(limit = 20, page = 1, accountIds?: string[]): Promise<{
+    transactions: TransactionSummary[];
+    pagination: {
+      total: number;
+      page: number;
+      limit: number;
+      pages: number;
+    };
+  }> {
+    const skip = (page - 1) * limit;
+    const where = accountIds ? { accountId: { in: accountIds } } : {};
+    const totalCount = await this.prisma.lightningTransaction.count({ where });
+    
+    const transactions = await this.prisma.lightningTransaction.findMany({
+      where,
+      take: limit,
+      skip,
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const transactionSummaries = transactions.map((tx: any) => this.toTransactionSummary(tx));
+
+    return {
+      transactions: transactionSummaries,
+      pagination: {
+        total: totalCount,
+        page,
+        limit,
+        pages: Math.ceil(totalCount / limit)
+      }
+    };
+  }
+
+  /**
+   * Gets transactions for an account
+   */
+  async getTransactionsByAccountId(accountId: string, limit = 20, page = 1) {
+    try {
+      const skip = (page - 1) * limit;
+      const [transactions, total] = await Promise.all([
+        this.prisma.lightningTransaction.findMany({
+          where: { accountId },
+          include: { account: true },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        this.prisma.lightningTransaction.count({
+          where: { accountId }
+        })
+      ]);
+      
+      return {
+        transactions: transactions.map((tx: any) => ({
+          id: tx.id,
+          accountId: tx.accountId,
+          accountName: tx.account.name,
+          rHash: tx.rHash,
+          amount: tx.amount,
+          type: tx.type,
+          status: tx.status,
+          memo: tx.memo || undefined,
+          fee: tx.fee,
+          failureReason: tx.failureReason,
+          createdAt: tx.createdAt
+        })),
+        pagination: {
+          total,
+          page,
+          limit,
+          pages: Math.ceil(total / limit)
+        }
+      };
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+
+  /**
+   * Gets an invoice by payment hash
+   */
+  async getInvoiceByRHash(rHash: string) {
+    // This is a placeholder implementation
+    return this.getTransactionByRHash(rHash);
+  }
+  
+  /**
+   * Gets invoices by user identifier
+   */
+  async getInvoicesByUserIdentifier(userIdentifier: string) {
+    try {
+      const pattern = process.env.USER_IDENTIFIER_PATTERN;
+      if (!pattern) {
+        return [];
+      }
+
+      // Look for transactions with the user identifier in the memo
+      const transactions = await this.prisma.lightningTransaction.findMany({
+        where: {
+          memo: {
+            contains: `userid:${userIdentifier}`
+          }
+        },
+        orderBy: {
+          createdAt: 'desc'
+        }
+      });
+
+      return transactions.map((tx: LightningTransaction) => this.toTransactionSummary(tx));
+    } catch (error) {
+      logger.error('Error getting invoices by user identifier:', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Creates a webhook for an account
+   */
+  async createWebhook(input: WebhookInput): Promise<WebhookSummary> {
+    try {
+      // Check if account exists
+      if (input.accountId) {
+        const account = await this.prisma.account.findUnique({
+          where: { id: input.accountId }
+        });
+        
+        if (!account) {
+          throw new NotFoundError(`Account with ID ${input.accountId} not found`);
+        }
+      }
+      
+      const webhook = await this.prisma.webhook.create({
+        data: {
+          accountId: input.accountId,
+          url: input.url,
+          secret: input.secret,
+          events: input.events || [],
+          enabled: input.enabled ?? true
+        }
+      });
+      
+      return this.toWebhookSummary(webhook);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets all webhooks for an account
+   */
+  async getWebhooksByAccountId(accountId: string): Promise<WebhookSummary[]> {
+    try {
+      const webhooks = await this.prisma.webhook.findMany({
+        where: { accountId }
+      });
+      
+      return webhooks.map((webhook: Webhook) => this.toWebhookSummary(webhook));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets the webhooks that receive events for every account
+   */
+  async getAllAccountsWebhooks(): Promise<WebhookSummary[]> {
+    try {
+      const webhooks = await this.prisma.webhook.findMany({
+        where: { accountId: null }
+      });
+      
+      return webhooks.map((webhook: Webhook) => this.toWebhookSummary(webhook));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets the enabled webhooks that should receive an event for an account:
+   * the account's own webhooks and every all-accounts webhook, filtered by event type
+   */
+  async getWebhooksForEvent(event: string, accountId: string): Promise<WebhookSummary[]> {
+    try {
+      const webhooks = await this.prisma.webhook.findMany({
+        where: {
+          enabled: true,
+          AND: [
+            { OR: [{ accountId }, { accountId: null }] },
+            { OR: [{ events: { isEmpty: true } }, { events: { has: event } }] }
+          ]
+        }
+      });
+      
+      return webhooks.map((webhook: Webhook) => this.toWebhookSummary(webhook));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets a webhook by ID
+   */
+  async getWebhookById(id: string): Promise<WebhookSummary | null> {
+    try {
+      const webhook = await this.prisma.webhook.findUnique({
+        where: { id }
+      });
+      
+      if (!webhook) {
+        return null;
+      }
+      
+      return this.toWebhookSummary(webhook);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Updates a webhook
+   */
+  async updateWebhook(id: string, data: Partial<WebhookInput>): Promise<WebhookSummary> {
+    try {
+      const webhook = await this.prisma.webhook.findUnique({
+        where: { id }
+      });
+      
+      if (!webhook) {
+        throw new NotFoundError(`Webhook with ID ${id} not found`);
+      }
+      
+      const updatedWebhook = await this.prisma.webhook.update({
+        where: { id },
+        data
+      });
+      
+      return this.toWebhookSummary(updatedWebhook);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Replaces a webhook's secret, keeping the old one valid until previousSecretExpiresAt
+   */
+  async rotateWebhookSecret(id: string, secret: string, previousSecretExpiresAt: Date): Promise<WebhookSummary> {
+    try {
+      const webhook = await this.prisma.webhook.findUnique({
+        where: { id }
+      });
+      
+      if (!webhook) {
+        throw new NotFoundError(`Webhook with ID ${id} not found`);
+      }
+      
+      const updatedWebhook = await this.prisma.webhook.update({
+        where: { id },
+        data: {
+          secret,
+          previousSecret: webhook.secret,
+          previousSecretExpiresAt
+        }
+      });
+      
+      return this.toWebhookSummary(updatedWebhook);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Deletes a webhook
+   */
+  async deleteWebhook(id: string): Promise<boolean> {
+    try {
+      const webhook = await this.prisma.webhook.findUnique({
+        where: { id }
+      });
+      
+      if (!webhook) {
+        return false;
+      }
+      
+      await this.prisma.webhook.delete({
+        where: { id }
+      });
+      
+      return true;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets the last position saved for an LND stream
+   */
+  async getSyncCursor(name: string): Promise<string | null> {
+    try {
+      const cursor = await this.prisma.syncCursor.findUnique({
+        where: { name }
+      });
+      
+      return cursor ? cursor.value : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Saves the last position seen on an LND stream
+   */
+  async setSyncCursor(name: string, value: string): Promise<void> {
+    try {
+      await this.prisma.syncCursor.upsert({
+        where: { name },
+        update: { value },
+        create: { name, value }
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  private toWebhookSummary(webhook: Webhook): WebhookSummary {
+    return {
+      id: webhook.id,
+      accountId: webhook.accountId,
+      url: webhook.url,
+      events: webhook.events,
+      secret: webhook.secret,
+      previousSecret: webhook.previousSecret,
+      previousSecretExpiresAt: webhook.previousSecretExpiresAt,
+      enabled: webhook.enabled,
+      createdAt: webhook.createdAt,
+      updatedAt: webhook.updatedAt
+    };
+  }
+  
+  /**
+   * Queues an event for delivery to a webhook
+   */
+  async createWebhookDelivery(webhookId: string, event: string, payload: string): Promise<WebhookDeliverySummary> {
+    try {
+      const delivery = await this.prisma.webhookDelivery.create({
+        data: { webhookId, event, payload }
+      });
+      
+      return this.toWebhookDeliverySummary(delivery);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets the IDs of pending deliveries that are due, for enabled webhooks only
+   */
+  async getDueWebhookDeliveryIds(limit = 50): Promise<string[]> {
+    try {
+      const deliveries = await this.prisma.webhookDelivery.findMany({
+        where: {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { lte: new Date() },
+          webhook: { enabled: true }
+        },
+        select: { id: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: limit
+      });
+      
+      return deliveries.map((delivery: { id: string }) => delivery.id);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Claims a due delivery by pushing its next attempt out to leaseUntil, so that
+   * only one worker sends it. Returns false if it is not due or already claimed.
+   */
+  async claimWebhookDelivery(id: string, leaseUntil: Date): Promise<boolean> {
+    try {
+      const result = await this.prisma.webhookDelivery.updateMany({
+        where: {
+          id,
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { lte: new Date() }
+        },
+        data: { nextAttemptAt: leaseUntil }
+      });
+      
+      return result.count > 0;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Records the outcome of a delivery attempt
+   */
+  async recordWebhookDeliveryAttempt(id: string, attempt: WebhookDeliveryAttempt): Promise<WebhookDeliverySummary> {
+    try {
+      const delivery = await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          ...attempt,
+          lastAttemptAt: new Date()
+        }
+      });
+      
+      return this.toWebhookDeliverySummary(delivery);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets a delivery by ID
+   */
+  async getWebhookDeliveryById(id: string): Promise<WebhookDeliverySummary | null> {
+    try {
+      const delivery = await this.prisma.webhookDelivery.findUnique({
+        where: { id }
+      });
+      
+      return delivery ? this.toWebhookDeliverySummary(delivery) : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets the deliveries for a webhook, newest first
+   */
+  async getWebhookDeliveries(webhookId: string, status?: WebhookDeliveryStatus, limit = 20, page = 1) {
+    try {
+      const skip = (page - 1) * limit;
+      const where = status ? { webhookId, status } : { webhookId };
+      const [deliveries, total] = await Promise.all([
+        this.prisma.webhookDelivery.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        this.prisma.webhookDelivery.count({ where })
+      ]);
+      
+      return {
+        deliveries: deliveries.map((delivery: WebhookDelivery) => this.toWebhookDeliverySummary(delivery)),
         pagination: {
           total,
           page,
@@ -319,193 +1931,531 @@ export class DbService {
       throw handleDatabaseError(error);
     }
   }
-
+  
   /**
-   * Gets an invoice by payment hash
+   * Puts a delivery back in the queue with a fresh set of attempts
    */
-  async getInvoiceByRHash(rHash: string) {
-    // This is a placeholder implementation
-    return this.getTransactionByRHash(rHash);
+  async resetWebhookDelivery(id: string): Promise<WebhookDeliverySummary> {
+    try {
+      const delivery = await this.prisma.webhookDelivery.update({
+        where: { id },
+        data: {
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+          lastError: null,
+          deliveredAt: null
+        }
+      });
+      
+      return this.toWebhookDeliverySummary(delivery);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  private toWebhookDeliverySummary(delivery: WebhookDelivery): WebhookDeliverySummary {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: JSON.parse(delivery.payload),
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt,
+      lastAttemptAt: delivery.lastAttemptAt,
+      lastStatusCode: delivery.lastStatusCode,
+      lastError: delivery.lastError,
+      deliveredAt: delivery.deliveredAt,
+      createdAt: delivery.createdAt,
+      updatedAt: delivery.updatedAt
+    };
   }
   
   /**
-   * Gets invoices by user identifier
+   * Appends an event to the event log. Event IDs are the cursor clients resume from, so appends
+   * are serialized until commit: otherwise a later ID could commit while an earlier one is still
+   * in flight, and a reader that has moved past the later ID would never see the earlier event.
    */
-  async getInvoicesByUserIdentifier(userIdentifier: string) {
+  async createEventLogEntry(event: string, accountId: string | null, data: string): Promise<EventLogEntrySummary> {
     try {
-      const pattern = process.env.USER_IDENTIFIER_PATTERN;
-      if (!pattern) {
-        return [];
-      }
-
-      // Look for transactions with the user identifier in the memo
-      const transactions = await this.prisma.lightningTransaction.findMany({
-        where: {
-          memo: {
-            contains: `userid:${userIdentifier}`
-          }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        }
+      const entry = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('event_log'))`;
+        
+        return tx.eventLogEntry.create({
+          data: { event, accountId, data }
+        });
       });
-
-      return transactions.map((tx: LightningTransaction) => ({
-        id: tx.id,
-        accountId: tx.accountId,
-        rHash: tx.rHash,
-        amount: tx.amount,
-        type: tx.type,
-        status: tx.status,
-        memo: tx.memo,
-        createdAt: tx.createdAt,
-        updatedAt: tx.updatedAt
-      }));
+      
+      return this.toEventLogEntrySummary(entry);
     } catch (error) {
-      logger.error('Error getting invoices by user identifier:', error);
-      return [];
+      throw handleDatabaseError(error);
     }
   }
   
   /**
-   * Creates a webhook for an account
+   * Gets the events logged after the given ID, oldest first, optionally for one account only.
+   * Event IDs become visible in order (see createEventLogEntry), so no later page can gain an
+   * entry with an ID below the last one returned.
    */
-  async createWebhook(input: WebhookInput): Promise<WebhookSummary> {
+  async getEventLogEntriesAfter(afterId: bigint, accountId: string | null, limit = 100): Promise<EventLogEntrySummary[]> {
     try {
-      // Check if account exists
-      const account = await this.prisma.account.findUnique({
-        where: { id: input.accountId }
+      const entries = await this.prisma.eventLogEntry.findMany({
+        where: accountId ? { id: { gt: afterId }, accountId } : { id: { gt: afterId } },
+        orderBy: { id: 'asc' },
+        take: limit
       });
       
-      if (!account) {
-        throw new NotFoundError(`Account with ID ${input.accountId} not found`);
-      }
+      return entries.map((entry: EventLogEntry) => this.toEventLogEntrySummary(entry));
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Deletes events logged before the given date and returns how many were removed
+   */
+  async deleteEventLogEntriesBefore(before: Date): Promise<number> {
+    try {
+      const result = await this.prisma.eventLogEntry.deleteMany({
+        where: { createdAt: { lt: before } }
+      });
       
-      const webhook = await this.prisma.webhook.create({
+      return result.count;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  private toEventLogEntrySummary(entry: EventLogEntry): EventLogEntrySummary {
+    return {
+      id: entry.id.toString(),
+      event: entry.event,
+      accountId: entry.accountId,
+      data: JSON.parse(entry.data),
+      createdAt: entry.createdAt
+    };
+  }
+  
+  /**
+   * Creates an API key
+   */
+  async createApiKey(input: ApiKeyInput): Promise<ApiKeySummary> {
+    try {
+      const apiKey = await this.prisma.apiKey.create({
         data: {
-          accountId: input.accountId,
-          url: input.url,
-          secret: input.secret,
-          enabled: input.enabled ?? true
+          name: input.name,
+          keyHash: input.keyHash,
+          prefix: input.prefix,
+          scopes: input.scopes,
+          accountIds: input.accountIds || [],
+          expiresAt: input.expiresAt || null
         }
       });
       
-      return {
-        id: webhook.id,
-        accountId: webhook.accountId,
-        url: webhook.url,
-        secret: webhook.secret,
-        enabled: webhook.enabled,
-        createdAt: webhook.createdAt,
-        updatedAt: webhook.updatedAt
-      };
+      return this.toApiKeySummary(apiKey);
     } catch (error) {
       throw handleDatabaseError(error);
     }
   }
   
   /**
-   * Gets all webhooks for an account
+   * Gets every API key, newest first
    */
-  async getWebhooksByAccountId(accountId: string): Promise<WebhookSummary[]> {
+  async getApiKeys(includeRevoked = false): Promise<ApiKeySummary[]> {
     try {
-      const webhooks = await this.prisma.webhook.findMany({
-        where: { accountId }
+      const apiKeys = await this.prisma.apiKey.findMany({
+        where: includeRevoked ? {} : { revokedAt: null },
+        orderBy: { createdAt: 'desc' }
       });
       
-      return webhooks.map((webhook: any) => ({
-        id: webhook.id,
-        accountId: webhook.accountId,
-        url: webhook.url,
-        secret: webhook.secret,
-        enabled: webhook.enabled,
-        createdAt: webhook.createdAt,
-        updatedAt: webhook.updatedAt
-      }));
+      return apiKeys.map((apiKey: ApiKey) => this.toApiKeySummary(apiKey));
     } catch (error) {
       throw handleDatabaseError(error);
     }
   }
   
   /**
-   * Gets a webhook by ID
+   * Gets an API key by ID
    */
-  async getWebhookById(id: string): Promise<WebhookSummary | null> {
+  async getApiKeyById(id: string): Promise<ApiKeySummary | null> {
     try {
-      const webhook = await this.prisma.webhook.findUnique({
+      const apiKey = await this.prisma.apiKey.findUnique({
         where: { id }
       });
       
-      if (!webhook) {
-        return null;
-      }
+      return apiKey ? this.toApiKeySummary(apiKey) : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets an API key by the hash of the key
+   */
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeySummary | null> {
+    try {
+      const apiKey = await this.prisma.apiKey.findUnique({
+        where: { keyHash }
+      });
       
-      return {
-        id: webhook.id,
-        accountId: webhook.accountId,
-        url: webhook.url,
-        secret: webhook.secret,
-        enabled: webhook.enabled,
-        createdAt: webhook.createdAt,
-        updatedAt: webhook.updatedAt
-      };
+      return apiKey ? this.toApiKeySummary(apiKey) : null;
     } catch (error) {
       throw handleDatabaseError(error);
     }
   }
   
   /**
-   * Updates a webhook
+   * Revokes an API key. Revoked keys are kept so that they can still be listed.
    */
-  async updateWebhook(id: string, data: Partial<WebhookInput>): Promise<WebhookSummary> {
+  async revokeApiKey(id: string): Promise<ApiKeySummary> {
     try {
-      const webhook = await this.prisma.webhook.findUnique({
+      const existing = await this.prisma.apiKey.findUnique({
         where: { id }
       });
       
-      if (!webhook) {
-        throw new NotFoundError(`Webhook with ID ${id} not found`);
+      if (!existing) {
+        throw new NotFoundError(`API key with ID ${id} not found`);
       }
       
-      const updatedWebhook = await this.prisma.webhook.update({
+      if (existing.revokedAt) {
+        return this.toApiKeySummary(existing);
+      }
+      
+      const apiKey = await this.prisma.apiKey.update({
         where: { id },
-        data
+        data: { revokedAt: new Date() }
       });
       
-      return {
-        id: updatedWebhook.id,
-        accountId: updatedWebhook.accountId,
-        url: updatedWebhook.url,
-        secret: updatedWebhook.secret,
-        enabled: updatedWebhook.enabled,
-        createdAt: updatedWebhook.createdAt,
-        updatedAt: updatedWebhook.updatedAt
-      };
+      return this.toApiKeySummary(apiKey);
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw handleDatabaseError(error);
     }
   }
   
   /**
-   * Deletes a webhook
+   * Records when an API key was last used
    */
-  async deleteWebhook(id: string): Promise<boolean> {
+  async touchApiKey(id: string, lastUsedAt: Date): Promise<void> {
     try {
-      const webhook = await this.prisma.webhook.findUnique({
+      await this.prisma.apiKey.update({
+        where: { id },
+        data: { lastUsedAt }
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  private toApiKeySummary(apiKey: ApiKey): ApiKeySummary {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      accountIds: apiKey.accountIds,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt
+    };
+  }
+  
+  /**
+   * Records a payment against a spending token, refusing it if the token's payments since
+   * the given time would go over its budget. Payments that failed do not count.
+   * Returns the ID of the record so that it can be released if the payment is never sent.
+   */
+  async reserveSpendingTokenSpend(input: SpendingTokenSpendInput, budget: bigint | null, since: Date): Promise<string> {
+    try {
+      return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Serialise payments made with the same token so two of them cannot both fit the same budget
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${input.tokenId}))`;
+        
+        if (budget !== null) {
+          const rows = await tx.$queryRaw<Array<{ total: bigint }>>`
+            SELECT COALESCE(SUM(s."amount"), 0)::BIGINT AS "total"
+            FROM "spending_token_spends" s
+            WHERE s."tokenId" = ${input.tokenId} AND s."createdAt" >= ${since}
+              AND NOT EXISTS (
+                SELECT 1 FROM "lightning_transactions" t
+                WHERE t."rHash" = s."rHash" AND t."type" = 'OUTGOING' AND t."status" = 'FAILED'
+              )
+          `;
+          
+          const spent = rows[0]?.total || BigInt(0);
+          if (spent + input.amount > budget) {
+            throw new ForbiddenError(`Payment of ${input.amount} sats exceeds the token's daily budget: ${spent} of ${budget} sats already spent`);
+          }
+        }
+        
+        const spend = await tx.spendingTokenSpend.create({
+          data: input
+        });
+        
+        return spend.id;
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Removes a spending token record for a payment that was never sent
+   */
+  async releaseSpendingTokenSpend(id: string): Promise<void> {
+    try {
+      await this.prisma.spendingTokenSpend.deleteMany({
         where: { id }
       });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Gets an account's spending policy
+   */
+  async getSpendingPolicy(accountId: string): Promise<SpendingPolicySummary | null> {
+    try {
+      const policy = await this.prisma.spendingPolicy.findUnique({
+        where: { accountId }
+      });
       
-      if (!webhook) {
-        return false;
+      return policy ? this.toSpendingPolicySummary(policy) : null;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Creates or updates an account's spending policy. Fields left out of the input keep their current value.
+   */
+  async upsertSpendingPolicy(accountId: string, input: SpendingPolicyInput): Promise<SpendingPolicySummary> {
+    try {
+      const policy = await this.prisma.spendingPolicy.upsert({
+        where: { accountId },
+        create: { accountId, ...input },
+        update: input
+      });
+      
+      return this.toSpendingPolicySummary(policy);
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Removes an account's spending policy. Returns false if it had none.
+   */
+  async deleteSpendingPolicy(accountId: string): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.spendingPolicy.deleteMany({
+        where: { accountId }
+      });
+      
+      return count > 0;
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Throws a SpendingPolicyError if a payment would break the account's spending policy.
+   * Spend caps count outgoing payments that have not failed, including internally settled ones,
+   * together with the routing fees charged to the account: the fee paid once a payment completes,
+   * the fee reserve while it is pending. feeReserve is the reserve this payment charges to the account.
+   * The hourly payment limit counts every attempt, so failed payments cannot be used to probe destinations.
+   * Must be called inside a transaction holding the account lock.
+   */
+  private async enforceSpendingPolicy(
+    tx: Prisma.TransactionClient,
+    accountId: string,
+    amount: bigint,
+    destination: string | null,
+    feeReserve: bigint = BigInt(0)
+  ): Promise<void> {
+    const policy = await tx.spendingPolicy.findUnique({
+      where: { accountId }
+    });
+    
+    if (!policy) {
+      return;
+    }
+    
+    if (destination && policy.blockedDestinations.includes(destination)) {
+      throw new SpendingPolicyError('blocked_destination', `Payments to ${destination} are blocked for this account`);
+    }
+    
+    if (policy.allowedDestinations.length > 0 && (!destination || !policy.allowedDestinations.includes(destination))) {
+      throw new SpendingPolicyError('destination_not_allowed', `Payments to ${destination || 'an unknown destination'} are not allowed for this account`);
+    }
+    
+    if (policy.maxPaymentAmount !== null && amount > policy.maxPaymentAmount) {
+      throw new SpendingPolicyError('max_payment_amount', `Payment of ${amount} sats exceeds the maximum of ${policy.maxPaymentAmount} sats per payment`);
+    }
+    
+    const now = Date.now();
+    
+    if (policy.maxPaymentsPerHour !== null) {
+      const count = await tx.lightningTransaction.count({
+        where: {
+          accountId,
+          type: TransactionType.OUTGOING,
+          createdAt: { gte: new Date(now - 60 * 60 * 1000) }
+        }
+      });
+      
+      if (count >= policy.maxPaymentsPerHour) {
+        throw new SpendingPolicyError('max_payments_per_hour', `Account has reached its limit of ${policy.maxPaymentsPerHour} payments per hour`);
+      }
+    }
+    
+    const caps: Array<{ rule: string; label: string; limit: bigint | null; windowMs: number }> = [
+      { rule: 'daily_limit', label: 'daily', limit: policy.dailyLimit, windowMs: 24 * 60 * 60 * 1000 },
+      { rule: 'weekly_limit', label: 'weekly', limit: policy.weeklyLimit, windowMs: 7 * 24 * 60 * 60 * 1000 }
+    ];
+    
+    for (const cap of caps) {
+      if (cap.limit === null) {
+        continue;
       }
       
-      await this.prisma.webhook.delete({
-        where: { id }
+      // Fees covered by a sponsor are not charged to the account, so they do not count
+      const rows = await tx.$queryRaw<Array<{ total: bigint }>>`
+        SELECT COALESCE(SUM(
+          "amount"::BIGINT + CASE
+            WHEN "feeAccountId" IS NOT NULL THEN 0
+            WHEN "status" = 'COMPLETE' THEN "fee"::BIGINT
+            ELSE "feeReserve"::BIGINT
+          END
+        ), 0)::BIGINT AS "total"
+        FROM "lightning_transactions"
+        WHERE "accountId" = ${accountId} AND "type" = 'OUTGOING' AND "status" <> 'FAILED'
+          AND "createdAt" >= ${new Date(now - cap.windowMs)}
+      `;
+      
+      const spent = rows[0]?.total || BigInt(0);
+      if (spent + amount + feeReserve > cap.limit) {
+        const fees = feeReserve > BigInt(0) ? ` plus up to ${feeReserve} sats in fees` : '';
+        throw new SpendingPolicyError(cap.rule, `Payment of ${amount} sats${fees} exceeds the ${cap.label} limit: ${spent} of ${cap.limit} sats already spent`);
+      }
+    }
+  }
+  
+  private toSpendingPolicySummary(policy: SpendingPolicy): SpendingPolicySummary {
+    return {
+      accountId: policy.accountId,
+      maxPaymentAmount: policy.maxPaymentAmount !== null ? policy.maxPaymentAmount.toString() : null,
+      dailyLimit: policy.dailyLimit !== null ? policy.dailyLimit.toString() : null,
+      weeklyLimit: policy.weeklyLimit !== null ? policy.weeklyLimit.toString() : null,
+      maxPaymentsPerHour: policy.maxPaymentsPerHour,
+      allowedDestinations: policy.allowedDestinations,
+      blockedDestinations: policy.blockedDestinations,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt
+    };
+  }
+  
+  /**
+   * Stores an Idempotency-Key for the first request that uses it. If the key is already
+   * in use, nothing is written and the existing record is returned with created false.
+   * Expired records are replaced, as are claims still without a response that were made
+   * before abandonedBefore, whose request is taken to have died.
+   */
+  async claimIdempotencyKey(input: IdempotencyKeyInput, abandonedBefore: Date): Promise<{ record: IdempotencyKeySummary; created: boolean }> {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: {
+          principal: input.principal,
+          key: input.key,
+          OR: [
+            { expiresAt: { lte: new Date() } },
+            { responseStatus: null, createdAt: { lte: abandonedBefore } }
+          ]
+        }
       });
       
-      return true;
+      const record = await this.prisma.idempotencyKey.create({
+        data: input
+      });
+      
+      return { record: this.toIdempotencyKeySummary(record), created: true };
+    } catch (error: any) {
+      // Another request already holds the key
+      if (error?.code === 'P2002') {
+        const existing = await this.prisma.idempotencyKey.findUnique({
+          where: { principal_key: { principal: input.principal, key: input.key } }
+        });
+        if (existing) {
+          return { record: this.toIdempotencyKeySummary(existing), created: false };
+        }
+        return this.claimIdempotencyKey(input, abandonedBefore);
+      }
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Stores the response produced for an Idempotency-Key
+   */
+  async completeIdempotencyKey(id: string, responseStatus: number, responseBody: string): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.update({
+        where: { id },
+        data: { responseStatus, responseBody }
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Deletes the claim on an Idempotency-Key whose request ended without a response to store,
+   * so the request can be retried with the same key
+   */
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    try {
+      await this.prisma.idempotencyKey.deleteMany({
+        where: { id, responseStatus: null }
+      });
+    } catch (error) {
+      throw handleDatabaseError(error);
+    }
+  }
+  
+  /**
+   * Deletes Idempotency-Keys that expired before the given time
+   */
+  async deleteExpiredIdempotencyKeys(before: Date): Promise<number> {
+    try {
+      const { count } = await this.prisma.idempotencyKey.deleteMany({
+        where: { expiresAt: { lt: before } }
+      });
+      
+      return count;
     } catch (error) {
       throw handleDatabaseError(error);
     }
   }
+  
+  private toIdempotencyKeySummary(record: IdempotencyKey): IdempotencyKeySummary {
+    return {
+      id: record.id,
+      key: record.key,
+      principal: record.principal,
+      fingerprint: record.fingerprint,
+      responseStatus: record.responseStatus,
+      responseBody: record.responseBody,
+      expiresAt: record.expiresAt,
+      createdAt: record.createdAt
+    };
+  }
 } 
\ No newline at end of file
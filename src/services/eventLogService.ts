@@ -0,0 +1,103 @@
+import { EventEmitter } from 'events';
+import { EventLogEntrySummary } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { DbService } from './dbService';
+
+/**
+ * Listener for events as they are logged
+ */
+export type EventLogListener = (entry: EventLogEntrySummary) => void;
+
+/**
+ * Persists account events to the event log and fans them out to live subscribers,
+ * so that SSE clients can resume from the last event they saw
+ */
+export class EventLogService {
+  private dbService: DbService;
+  private emitter = new EventEmitter();
+  private interval: NodeJS.Timeout | null = null;
+  private readonly retentionMs: number;
+
+  constructor() {
+    this.dbService = new DbService();
+    this.retentionMs = parseInt(process.env.EVENT_LOG_RETENTION_DAYS || '7', 10) * 24 * 60 * 60 * 1000;
+
+    // Every open SSE connection adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Log an event and pass it to live subscribers
+   */
+  async record(event: string, data: any): Promise<EventLogEntrySummary> {
+    const entry = await this.dbService.createEventLogEntry(event, data.accountId || null, JSON.stringify(data));
+    this.emitter.emit('event', entry);
+    return entry;
+  }
+
+  /**
+   * Get the events logged after the given ID, for one account or for all accounts when accountId is null
+   */
+  async getEventsAfter(afterId: string, accountId: string | null, limit = 100): Promise<EventLogEntrySummary[]> {
+    return this.dbService.getEventLogEntriesAfter(BigInt(afterId), accountId, limit);
+  }
+
+  /**
+   * Listen for new events, for one account or for all accounts when accountId is null.
+   * Returns a function that removes the listener.
+   */
+  subscribe(accountId: string | null, listener: EventLogListener): () => void {
+    const handler = (entry: EventLogEntrySummary) => {
+      if (!accountId || entry.accountId === accountId) {
+        listener(entry);
+      }
+    };
+
+    this.emitter.on('event', handler);
+
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  /**
+   * Delete events older than the retention period
+   */
+  async prune(): Promise<number> {
+    const deleted = await this.dbService.deleteEventLogEntriesBefore(new Date(Date.now() - this.retentionMs));
+    if (deleted > 0) {
+      logger.info(`Pruned ${deleted} events from the event log`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Prune the event log on a fixed interval
+   */
+  start(intervalMs = 60 * 60 * 1000): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting event log pruning (interval: ${intervalMs}ms, retention: ${this.retentionMs}ms)`);
+
+    this.interval = setInterval(() => {
+      this.prune().catch(error => {
+        logger.error('Error pruning event log:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop pruning the event log
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped event log pruning');
+    }
+  }
+}
+
+export const eventLogService = new EventLogService();
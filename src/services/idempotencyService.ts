@@ -0,0 +1,127 @@
+import * as crypto from 'crypto';
+import { IdempotencyKeySummary } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { DbService } from './dbService';
+
+/**
+ * Outcome of starting a request with an Idempotency-Key:
+ * - new: first use of the key; the response must be completed
+ * - replay: the key was used before for the same request; send the stored response
+ * - in_progress: the first request with the key has not finished yet
+ * - mismatch: the key was used before for a different request
+ */
+export type IdempotencyResult =
+  | { status: 'new'; record: IdempotencyKeySummary }
+  | { status: 'replay'; responseStatus: number; responseBody: any }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' };
+
+/**
+ * Stores Idempotency-Keys with a fingerprint of the request and the response it produced,
+ * so that retried requests get the original response instead of being processed twice
+ */
+export class IdempotencyService {
+  private dbService: DbService;
+  private interval: NodeJS.Timeout | null = null;
+  private readonly ttlMs: number;
+  private readonly leaseMs: number;
+
+  constructor() {
+    this.dbService = new DbService();
+    this.ttlMs = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+    this.leaseMs = parseInt(process.env.IDEMPOTENCY_LEASE_SECONDS || '120', 10) * 1000;
+  }
+
+  /**
+   * Fingerprint a request so a reused key can be matched against the request it was first used for
+   */
+  fingerprint(method: string, path: string, body: unknown): string {
+    return crypto.createHash('sha256')
+      .update(JSON.stringify({ method: method.toUpperCase(), path, body: body ?? null }))
+      .digest('hex');
+  }
+
+  /**
+   * Claim a key for a request, or find out how an earlier request with the key went.
+   * A claim that has had no response for longer than the lease is taken over, since the
+   * process handling it has most likely crashed.
+   */
+  async begin(principal: string, key: string, fingerprint: string): Promise<IdempotencyResult> {
+    const now = Date.now();
+    const { record, created } = await this.dbService.claimIdempotencyKey({
+      key,
+      principal,
+      fingerprint,
+      expiresAt: new Date(now + this.ttlMs)
+    }, new Date(now - this.leaseMs));
+
+    if (created) {
+      return { status: 'new', record };
+    }
+
+    if (record.fingerprint !== fingerprint) {
+      return { status: 'mismatch' };
+    }
+
+    if (record.responseStatus === null || record.responseBody === null) {
+      return { status: 'in_progress' };
+    }
+
+    return { status: 'replay', responseStatus: record.responseStatus, responseBody: JSON.parse(record.responseBody) };
+  }
+
+  /**
+   * Store the response for a key so retries receive it
+   */
+  async complete(record: IdempotencyKeySummary, responseStatus: number, responseBody: unknown): Promise<void> {
+    await this.dbService.completeIdempotencyKey(record.id, responseStatus, JSON.stringify(responseBody));
+  }
+
+  /**
+   * Give up the claim on a key without storing a response, so the request can be retried
+   */
+  async release(record: IdempotencyKeySummary): Promise<void> {
+    await this.dbService.releaseIdempotencyKey(record.id);
+  }
+
+  /**
+   * Delete expired keys
+   */
+  async prune(): Promise<number> {
+    const deleted = await this.dbService.deleteExpiredIdempotencyKeys(new Date());
+    if (deleted > 0) {
+      logger.info(`Pruned ${deleted} expired idempotency keys`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete expired keys on a fixed interval
+   */
+  start(intervalMs = 60 * 60 * 1000): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting idempotency key pruning (interval: ${intervalMs}ms, ttl: ${this.ttlMs}ms)`);
+
+    this.interval = setInterval(() => {
+      this.prune().catch(error => {
+        logger.error('Error pruning idempotency keys:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop pruning idempotency keys
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped idempotency key pruning');
+    }
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,107 @@
+import { JournalEntryType, PostingSide } from '@prisma/client';
+import { ledgerService } from './ledgerService';
+import { InMemoryPrisma } from '../testing/inMemoryPrisma';
+import { LedgerError } from '../utils/errors';
+
+describe('LedgerService journal entries', () => {
+  let db: InMemoryPrisma;
+  let alice: string;
+  let bob: string;
+  let carol: string;
+
+  beforeEach(() => {
+    db = new InMemoryPrisma();
+    alice = db.insert('accounts', { name: 'alice' }).id;
+    bob = db.insert('accounts', { name: 'bob' }).id;
+    carol = db.insert('accounts', { name: 'carol' }).id;
+  });
+
+  function transfer(from: string, to: string, amount: number) {
+    return ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      postings: [
+        { accountId: from, side: PostingSide.DEBIT, amount: BigInt(amount) },
+        { accountId: to, side: PostingSide.CREDIT, amount: BigInt(amount) }
+      ]
+    });
+  }
+
+  function expectNothingWritten(): void {
+    expect(db.tables.journalEntries).toHaveLength(0);
+    expect(db.tables.postings).toHaveLength(0);
+    expect(db.tables.accountBalances).toHaveLength(0);
+  }
+
+  it('rejects an entry whose debits and credits do not balance', async () => {
+    await expect(ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      postings: [
+        { accountId: alice, side: PostingSide.DEBIT, amount: BigInt(100) },
+        { accountId: bob, side: PostingSide.CREDIT, amount: BigInt(99) }
+      ]
+    })).rejects.toBeInstanceOf(LedgerError);
+
+    expectNothingWritten();
+  });
+
+  it('rejects an entry with fewer than two postings', async () => {
+    await expect(ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      postings: [{ accountId: alice, side: PostingSide.CREDIT, amount: BigInt(100) }]
+    })).rejects.toBeInstanceOf(LedgerError);
+
+    expectNothingWritten();
+  });
+
+  it('rejects zero and negative posting amounts even when they balance', async () => {
+    await expect(transfer(alice, bob, 0)).rejects.toBeInstanceOf(LedgerError);
+    await expect(ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      postings: [
+        { accountId: alice, side: PostingSide.DEBIT, amount: BigInt(-50) },
+        { accountId: bob, side: PostingSide.CREDIT, amount: BigInt(-50) }
+      ]
+    })).rejects.toBeInstanceOf(LedgerError);
+
+    expectNothingWritten();
+  });
+
+  it('keeps the maintained balances equal to the sum of the postings', async () => {
+    await transfer(alice, bob, 500);
+    await transfer(bob, carol, 200);
+    await transfer(carol, alice, 50);
+    await ledgerService.postEntry(db.client, {
+      type: JournalEntryType.TRANSFER,
+      postings: [
+        { accountId: alice, side: PostingSide.DEBIT, amount: BigInt(30) },
+        { accountId: bob, side: PostingSide.CREDIT, amount: BigInt(10) },
+        { accountId: carol, side: PostingSide.CREDIT, amount: BigInt(20) }
+      ]
+    });
+
+    const maintained = await ledgerService.getBalances(db.client, [alice, bob, carol]);
+    expect(maintained).toEqual(db.postingBalances());
+    expect(maintained.get(alice)).toBe(BigInt(-480));
+    expect(maintained.get(bob)).toBe(BigInt(310));
+    expect(maintained.get(carol)).toBe(BigInt(170));
+  });
+
+  it('leaves no postings or balance changes behind when the surrounding transaction fails', async () => {
+    await transfer(alice, bob, 500);
+
+    await expect(db.client.$transaction(async (tx: unknown) => {
+      await ledgerService.postEntry(tx as typeof db.client, {
+        type: JournalEntryType.TRANSFER,
+        postings: [
+          { accountId: bob, side: PostingSide.DEBIT, amount: BigInt(300) },
+          { accountId: carol, side: PostingSide.CREDIT, amount: BigInt(300) }
+        ]
+      });
+      throw new Error('payment refused');
+    })).rejects.toThrow('payment refused');
+
+    expect(db.tables.journalEntries).toHaveLength(1);
+    expect(await ledgerService.getBalances(db.client, [alice, bob, carol])).toEqual(db.postingBalances());
+    expect(await ledgerService.getBalance(db.client, carol)).toBe(BigInt(0));
+  });
+});
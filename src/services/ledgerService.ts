@@ -0,0 +1,559 @@
+import {
+  Prisma,
+  AccountKind,
+  JournalEntryType,
+  PostingSide,
+  LightningTransaction,
+  TransactionType,
+  TransactionStatus
+} from '@prisma/client';
+import { BalanceMismatch, JournalEntryInput, JournalEntrySummary, PostingInput } from '../models/interfaces';
+import { LedgerError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+/**
+ * Names of the system accounts that sit on the other side of user postings
+ */
+export const SYSTEM_ACCOUNTS = {
+  NODE_ASSET: 'system:node_asset',
+  FEES_EXPENSE: 'system:fees_expense',
+  UNASSIGNED: 'system:unassigned'
+} as const;
+
+export type SystemAccountName = typeof SYSTEM_ACCOUNTS[keyof typeof SYSTEM_ACCOUNTS];
+
+const SYSTEM_ACCOUNT_DESCRIPTIONS: Record<SystemAccountName, string> = {
+  [SYSTEM_ACCOUNTS.NODE_ASSET]: 'Funds held by the LND node',
+  [SYSTEM_ACCOUNTS.FEES_EXPENSE]: 'Routing fees paid by the node',
+  [SYSTEM_ACCOUNTS.UNASSIGNED]: 'Received funds not yet attributed to an account'
+};
+
+/**
+ * Prefix reserved for system account names
+ */
+export const SYSTEM_ACCOUNT_PREFIX = 'system:';
+
+/**
+ * Either the Prisma client itself or the client handed to a $transaction callback
+ */
+export type LedgerClient = Prisma.TransactionClient;
+
+/**
+ * Minimal view of a lightning transaction needed to post it to the ledger
+ */
+type LedgerTransaction = Pick<LightningTransaction, 'id' | 'accountId' | 'amount' | 'type' | 'memo'>;
+
+/**
+ * Settled and pending amounts for an account, in satoshis
+ */
+export interface BalanceBreakdown {
+  settled: bigint;
+  pendingIncoming: bigint;
+  pendingOutgoing: bigint;
+  available: bigint;
+}
+
+/**
+ * Ledger service for writing balanced journal entries and reading balances
+ */
+export class LedgerService {
+  private systemAccountIds: Map<SystemAccountName, string> = new Map();
+
+  /**
+   * Gets the ID of a system account, creating it if it does not exist yet
+   */
+  async getSystemAccountId(client: LedgerClient, name: SystemAccountName): Promise<string> {
+    const cached = this.systemAccountIds.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const account = await client.account.upsert({
+      where: { name },
+      update: {},
+      create: {
+        name,
+        description: SYSTEM_ACCOUNT_DESCRIPTIONS[name],
+        kind: AccountKind.SYSTEM
+      }
+    });
+
+    this.systemAccountIds.set(name, account.id);
+    return account.id;
+  }
+
+  /**
+   * Writes a journal entry after checking that its debits and credits balance
+   */
+  async postEntry(client: LedgerClient, input: JournalEntryInput): Promise<JournalEntrySummary> {
+    if (input.postings.length < 2) {
+      throw new LedgerError('A journal entry needs at least two postings');
+    }
+
+    let debits = BigInt(0);
+    let credits = BigInt(0);
+    for (const posting of input.postings) {
+      if (posting.amount <= BigInt(0)) {
+        throw new LedgerError(`Posting amounts must be positive, got ${posting.amount}`);
+      }
+      if (posting.side === PostingSide.DEBIT) {
+        debits += posting.amount;
+      } else {
+        credits += posting.amount;
+      }
+    }
+
+    if (debits !== credits) {
+      throw new LedgerError(`Unbalanced journal entry: debits ${debits} != credits ${credits}`);
+    }
+
+    // The maintained balances are updated before the postings are written, so the lock taken on
+    // account_balances is held by every transaction with postings that balance snapshots could miss
+    await this.applyToBalances(client, input.postings);
+
+    const entry = await client.journalEntry.create({
+      data: {
+        type: input.type,
+        transactionId: input.transactionId || null,
+        transferId: input.transferId || null,
+        memo: input.memo || null,
+        postings: {
+          create: input.postings.map(posting => ({
+            accountId: posting.accountId,
+            side: posting.side,
+            amount: posting.amount
+          }))
+        }
+      },
+      include: { postings: true }
+    });
+
+    logger.debug(`Posted ${entry.type} journal entry ${entry.id} for ${debits} sats`);
+
+    return this.toJournalEntrySummary(entry);
+  }
+
+  /**
+   * Posts the entry for a lightning transaction that has just completed
+   */
+  async postTransactionSettlement(client: LedgerClient, transaction: LedgerTransaction): Promise<JournalEntrySummary | null> {
+    const amount = BigInt(transaction.amount);
+    if (amount === BigInt(0)) {
+      return null;
+    }
+
+    const nodeAccountId = await this.getSystemAccountId(client, SYSTEM_ACCOUNTS.NODE_ASSET);
+    const incoming = transaction.type === TransactionType.INCOMING;
+
+    return this.postEntry(client, {
+      type: incoming ? JournalEntryType.INVOICE_SETTLEMENT : JournalEntryType.PAYMENT,
+      transactionId: transaction.id,
+      memo: transaction.memo || undefined,
+      postings: [
+        { accountId: nodeAccountId, side: incoming ? PostingSide.DEBIT : PostingSide.CREDIT, amount },
+        { accountId: transaction.accountId, side: incoming ? PostingSide.CREDIT : PostingSide.DEBIT, amount }
+      ]
+    });
+  }
+
+  /**
+   * Posts the routing fee paid for an outgoing payment against the account that sponsors it
+   */
+  async postTransactionFee(
+    client: LedgerClient,
+    transaction: LedgerTransaction,
+    fee: bigint,
+    feeAccountId: string
+  ): Promise<JournalEntrySummary | null> {
+    if (fee <= BigInt(0)) {
+      return null;
+    }
+
+    const nodeAccountId = await this.getSystemAccountId(client, SYSTEM_ACCOUNTS.NODE_ASSET);
+
+    return this.postEntry(client, {
+      type: JournalEntryType.FEE,
+      transactionId: transaction.id,
+      memo: `Routing fee for transaction ${transaction.id}`,
+      postings: [
+        { accountId: feeAccountId, side: PostingSide.DEBIT, amount: fee },
+        { accountId: nodeAccountId, side: PostingSide.CREDIT, amount: fee }
+      ]
+    });
+  }
+
+  /**
+   * Posts an entry reversing every posting made so far for a lightning transaction
+   */
+  async postTransactionReversal(client: LedgerClient, transaction: LedgerTransaction): Promise<JournalEntrySummary | null> {
+    const postings = await client.posting.findMany({
+      where: { journalEntry: { transactionId: transaction.id } }
+    });
+
+    // Net each account's position so repeated reversals never overshoot
+    const net = new Map<string, bigint>();
+    for (const posting of postings) {
+      const signed = posting.side === PostingSide.DEBIT ? posting.amount : -posting.amount;
+      net.set(posting.accountId, (net.get(posting.accountId) || BigInt(0)) + signed);
+    }
+
+    const reversal = Array.from(net.entries())
+      .filter(([, amount]) => amount !== BigInt(0))
+      .map(([accountId, amount]) => ({
+        accountId,
+        side: amount > BigInt(0) ? PostingSide.CREDIT : PostingSide.DEBIT,
+        amount: amount > BigInt(0) ? amount : -amount
+      }));
+
+    if (reversal.length === 0) {
+      return null;
+    }
+
+    return this.postEntry(client, {
+      type: JournalEntryType.REFUND,
+      transactionId: transaction.id,
+      memo: `Reversal of transaction ${transaction.id}`,
+      postings: reversal
+    });
+  }
+
+  /**
+   * Posts whatever the ledger needs when a transaction moves between statuses
+   */
+  async postStatusChange(
+    client: LedgerClient,
+    transaction: LedgerTransaction,
+    from: LightningTransaction['status'] | null,
+    to: LightningTransaction['status']
+  ): Promise<JournalEntrySummary | null> {
+    if (from !== TransactionStatus.COMPLETE && to === TransactionStatus.COMPLETE) {
+      return this.postTransactionSettlement(client, transaction);
+    }
+
+    if (from === TransactionStatus.COMPLETE && to !== TransactionStatus.COMPLETE) {
+      return this.postTransactionReversal(client, transaction);
+    }
+
+    return null;
+  }
+
+  /**
+   * Locks an account row until the surrounding transaction ends, so that
+   * balance checks and the postings that depend on them cannot interleave
+   */
+  async lockAccount(client: LedgerClient, accountId: string): Promise<boolean> {
+    const rows = await client.$queryRaw<Array<{ id: string }>>`
+      SELECT "id" FROM "accounts" WHERE "id" = ${accountId} FOR UPDATE
+    `;
+    return rows.length > 0;
+  }
+
+  /**
+   * Gets the balance of an account (credits minus debits)
+   */
+  async getBalance(client: LedgerClient, accountId: string): Promise<bigint> {
+    const balances = await this.getBalances(client, [accountId]);
+    return balances.get(accountId) || BigInt(0);
+  }
+
+  /**
+   * Gets an account's settled balance together with its pending amounts.
+   * Pending outgoing payments (including their fee reserve) are held back from
+   * the available balance; pending incoming invoices are not counted until they settle.
+   * Fee reserves are held against the account that sponsors the fee, when there is one.
+   */
+  async getBalanceBreakdown(client: LedgerClient, accountId: string): Promise<BalanceBreakdown> {
+    const settled = await this.getBalance(client, accountId);
+
+    const pending = await client.$queryRaw<Array<{ type: string; total: bigint | null }>>`
+      SELECT "type"::text AS "type",
+             SUM(
+               CASE WHEN "accountId" = ${accountId} THEN CAST("amount" AS BIGINT) ELSE 0 END +
+               CASE WHEN "type" = 'OUTGOING' AND COALESCE("feeAccountId", "accountId") = ${accountId} THEN CAST("feeReserve" AS BIGINT) ELSE 0 END
+             )::BIGINT AS "total"
+      FROM "lightning_transactions"
+      WHERE ("accountId" = ${accountId} OR "feeAccountId" = ${accountId}) AND "status" = 'PENDING'
+      GROUP BY "type"
+    `;
+
+    const pendingIncoming = pending.find(row => row.type === 'INCOMING')?.total || BigInt(0);
+    const pendingOutgoing = pending.find(row => row.type === 'OUTGOING')?.total || BigInt(0);
+
+    return {
+      settled,
+      pendingIncoming,
+      pendingOutgoing,
+      available: settled - pendingOutgoing
+    };
+  }
+
+  /**
+   * Gets the balance an account can spend right now (settled minus pending outgoing)
+   */
+  async getAvailableBalance(client: LedgerClient, accountId: string): Promise<bigint> {
+    const breakdown = await this.getBalanceBreakdown(client, accountId);
+    return breakdown.available;
+  }
+
+  /**
+   * Gets the balances of several accounts in one query, from the maintained account_balances table
+   */
+  async getBalances(client: LedgerClient, accountIds: string[]): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    if (accountIds.length === 0) {
+      return balances;
+    }
+
+    const rows = await client.accountBalance.findMany({
+      where: { accountId: { in: accountIds } }
+    });
+
+    for (const row of rows) {
+      balances.set(row.accountId, row.balance);
+    }
+
+    return balances;
+  }
+
+  /**
+   * Adds a journal entry's postings to the maintained balances. Rows are updated in account
+   * order so that concurrent entries touching the same accounts cannot deadlock each other.
+   */
+  private async applyToBalances(client: LedgerClient, postings: PostingInput[]): Promise<void> {
+    const changes = new Map<string, bigint>();
+    for (const posting of postings) {
+      const signed = posting.side === PostingSide.CREDIT ? posting.amount : -posting.amount;
+      changes.set(posting.accountId, (changes.get(posting.accountId) || BigInt(0)) + signed);
+    }
+
+    for (const accountId of Array.from(changes.keys()).sort()) {
+      await client.$executeRaw`
+        INSERT INTO "account_balances" ("accountId", "balance", "updatedAt")
+        VALUES (${accountId}, ${changes.get(accountId)}, CURRENT_TIMESTAMP)
+        ON CONFLICT ("accountId") DO UPDATE
+        SET "balance" = "account_balances"."balance" + EXCLUDED."balance", "updatedAt" = EXCLUDED."updatedAt"
+      `;
+    }
+  }
+
+  /**
+   * Compares every maintained balance with the sum of the account's postings.
+   * Both sides are read in one statement, so postings committed meanwhile cannot cause false alarms.
+   */
+  async findBalanceMismatches(client: LedgerClient): Promise<BalanceMismatch[]> {
+    const rows = await client.$queryRaw<Array<{ accountId: string; stored: bigint; actual: bigint }>>`
+      SELECT COALESCE(b."accountId", p."accountId") AS "accountId",
+             COALESCE(b."balance", 0)::BIGINT AS "stored",
+             COALESCE(p."balance", 0)::BIGINT AS "actual"
+      FROM "account_balances" b
+      FULL OUTER JOIN (
+        SELECT "accountId", SUM(CASE WHEN "side" = 'CREDIT' THEN "amount" ELSE -"amount" END) AS "balance"
+        FROM "postings"
+        GROUP BY "accountId"
+      ) p ON p."accountId" = b."accountId"
+      WHERE COALESCE(b."balance", 0) <> COALESCE(p."balance", 0)
+    `;
+
+    return rows.map(row => ({
+      accountId: row.accountId,
+      stored: row.stored.toString(),
+      actual: row.actual.toString()
+    }));
+  }
+
+  /**
+   * Rewrites maintained balances that do not match the sum of their postings. Writes to
+   * account_balances are blocked while this runs, so entries being posted concurrently are
+   * applied on top of the repaired balance once it commits. Must run inside a transaction.
+   */
+  async repairBalances(client: LedgerClient): Promise<BalanceMismatch[]> {
+    await client.$executeRaw`LOCK TABLE "account_balances" IN SHARE ROW EXCLUSIVE MODE`;
+
+    const mismatches = await this.findBalanceMismatches(client);
+
+    for (const mismatch of mismatches) {
+      await client.$executeRaw`
+        INSERT INTO "account_balances" ("accountId", "balance", "updatedAt")
+        VALUES (${mismatch.accountId}, ${BigInt(mismatch.actual)}, CURRENT_TIMESTAMP)
+        ON CONFLICT ("accountId") DO UPDATE
+        SET "balance" = EXCLUDED."balance", "updatedAt" = EXCLUDED."updatedAt"
+      `;
+      logger.warn(`Repaired balance of account ${mismatch.accountId}: ${mismatch.stored} -> ${mismatch.actual}`);
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Gets an account's settled balance as it stood at a point in time, counting postings created
+   * at or before asOf. Starts from the latest daily snapshot closed by then, so only the postings
+   * after it have to be summed.
+   */
+  async getBalanceAsOf(client: LedgerClient, accountId: string, asOf: Date): Promise<bigint> {
+    const snapshot = await client.accountBalanceSnapshot.findFirst({
+      where: { accountId, closedAt: { lte: asOf } },
+      orderBy: { closedAt: 'desc' }
+    });
+
+    const sums = await client.posting.groupBy({
+      by: ['side'],
+      where: {
+        accountId,
+        createdAt: snapshot ? { gte: snapshot.closedAt, lte: asOf } : { lte: asOf }
+      },
+      _sum: { amount: true }
+    });
+
+    return sums.reduce((balance: bigint, sum: { side: PostingSide; _sum: { amount: bigint | null } }) => {
+      const amount = sum._sum.amount || BigInt(0);
+      return sum.side === PostingSide.CREDIT ? balance + amount : balance - amount;
+    }, snapshot ? snapshot.balance : BigInt(0));
+  }
+
+  /**
+   * Writes the closing balance of every account that existed before closedAt, from the account's
+   * previous snapshot plus the postings since. Snapshots that already exist are left alone.
+   * Writes to account_balances are blocked first, as in repairBalances, so entries still being
+   * posted commit before the postings are summed. An entry whose postings are dated before
+   * closedAt but written after this runs is still missed; repairBalanceSnapshots corrects it.
+   * Must run inside a transaction. Returns the number of snapshots written.
+   */
+  async writeBalanceSnapshots(client: LedgerClient, closedAt: Date): Promise<number> {
+    await client.$executeRaw`LOCK TABLE "account_balances" IN SHARE ROW EXCLUSIVE MODE`;
+
+    return client.$executeRaw`
+      INSERT INTO "account_balance_snapshots" ("accountId", "closedAt", "balance")
+      SELECT a."id", ${closedAt}, COALESCE(prev."balance", 0) + COALESCE(delta."balance", 0)
+      FROM "accounts" a
+      LEFT JOIN LATERAL (
+        SELECT s."balance", s."closedAt"
+        FROM "account_balance_snapshots" s
+        WHERE s."accountId" = a."id" AND s."closedAt" < ${closedAt}
+        ORDER BY s."closedAt" DESC
+        LIMIT 1
+      ) prev ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT SUM(CASE WHEN p."side" = 'CREDIT' THEN p."amount" ELSE -p."amount" END) AS "balance"
+        FROM "postings" p
+        WHERE p."accountId" = a."id"
+          AND p."createdAt" < ${closedAt}
+          AND (prev."closedAt" IS NULL OR p."createdAt" >= prev."closedAt")
+      ) delta ON TRUE
+      WHERE a."createdAt" < ${closedAt}
+      ON CONFLICT ("accountId", "closedAt") DO NOTHING
+    `;
+  }
+
+  /**
+   * Rewrites every balance snapshot that does not match the sum of the account's postings created
+   * before its closedAt. Must run inside a transaction. Returns the number of snapshots rewritten.
+   */
+  async repairBalanceSnapshots(client: LedgerClient): Promise<number> {
+    await client.$executeRaw`LOCK TABLE "account_balances" IN SHARE ROW EXCLUSIVE MODE`;
+
+    return client.$executeRaw`
+      WITH actual AS (
+        SELECT s."accountId", s."closedAt",
+               COALESCE(SUM(CASE WHEN p."side" = 'CREDIT' THEN p."amount" ELSE -p."amount" END), 0)::BIGINT AS "balance"
+        FROM "account_balance_snapshots" s
+        LEFT JOIN "postings" p ON p."accountId" = s."accountId" AND p."createdAt" < s."closedAt"
+        GROUP BY s."accountId", s."closedAt"
+      )
+      UPDATE "account_balance_snapshots" s
+      SET "balance" = actual."balance"
+      FROM actual
+      WHERE s."accountId" = actual."accountId" AND s."closedAt" = actual."closedAt"
+        AND s."balance" <> actual."balance"
+    `;
+  }
+
+  /**
+   * Gets the IDs of each account and every account below it in the account hierarchy
+   */
+  async getSubtreeAccountIds(client: LedgerClient, accountIds: string[]): Promise<Map<string, string[]>> {
+    const subtrees = new Map<string, string[]>();
+    if (accountIds.length === 0) {
+      return subtrees;
+    }
+
+    // UNION rather than UNION ALL stops the recursion if the hierarchy ever contains a cycle
+    const rows = await client.$queryRaw<Array<{ rootId: string; id: string }>>`
+      WITH RECURSIVE "tree"("rootId", "id") AS (
+        SELECT "id", "id" FROM "accounts" WHERE "id" IN (${Prisma.join(accountIds)})
+        UNION
+        SELECT "tree"."rootId", a."id" FROM "accounts" a JOIN "tree" ON a."parentId" = "tree"."id"
+      )
+      SELECT "rootId", "id" FROM "tree"
+    `;
+
+    for (const row of rows) {
+      subtrees.set(row.rootId, [...(subtrees.get(row.rootId) || []), row.id]);
+    }
+
+    return subtrees;
+  }
+
+  /**
+   * Gets the balances of several accounts including the balances of all their descendant accounts
+   */
+  async getRolledUpBalances(client: LedgerClient, accountIds: string[]): Promise<Map<string, bigint>> {
+    const subtrees = await this.getSubtreeAccountIds(client, accountIds);
+    const balances = await this.getBalances(client, Array.from(new Set(Array.from(subtrees.values()).flat())));
+
+    const totals = new Map<string, bigint>();
+    for (const [rootId, ids] of subtrees) {
+      totals.set(rootId, ids.reduce((total, id) => total + (balances.get(id) || BigInt(0)), BigInt(0)));
+    }
+
+    return totals;
+  }
+
+  /**
+   * Gets the journal entries recorded for one or more lightning transactions
+   */
+  async getEntriesForTransactions(client: LedgerClient, transactionIds: string[]): Promise<JournalEntrySummary[]> {
+    const entries = await client.journalEntry.findMany({
+      where: { transactionId: { in: transactionIds } },
+      include: { postings: true },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return entries.map(entry => this.toJournalEntrySummary(entry));
+  }
+
+  /**
+   * Finds journal entries whose postings do not sum to zero
+   */
+  async findUnbalancedEntries(client: LedgerClient): Promise<Array<{ journalEntryId: string; imbalance: string }>> {
+    const rows = await client.$queryRaw<Array<{ journalEntryId: string; imbalance: bigint }>>`
+      SELECT "journalEntryId",
+             SUM(CASE WHEN "side" = 'DEBIT' THEN "amount" ELSE -"amount" END) AS "imbalance"
+      FROM "postings"
+      GROUP BY "journalEntryId"
+      HAVING SUM(CASE WHEN "side" = 'DEBIT' THEN "amount" ELSE -"amount" END) <> 0
+    `;
+
+    return rows.map(row => ({
+      journalEntryId: row.journalEntryId,
+      imbalance: row.imbalance.toString()
+    }));
+  }
+
+  private toJournalEntrySummary(entry: Prisma.JournalEntryGetPayload<{ include: { postings: true } }>): JournalEntrySummary {
+    return {
+      id: entry.id,
+      transactionId: entry.transactionId,
+      transferId: entry.transferId,
+      type: entry.type,
+      memo: entry.memo,
+      postings: entry.postings.map(posting => ({
+        accountId: posting.accountId,
+        side: posting.side,
+        amount: posting.amount.toString()
+      })),
+      createdAt: entry.createdAt
+    };
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -1,14 +1,21 @@
-import { LndInvoice } from '../types/lnd';
-import { PrismaClient } from '@prisma/client';
+import { LndInvoice, LndPayment, LndDecodedPaymentRequest } from '../types/lnd';
+import { PrismaClient, AccountKind, TransactionType, TransactionStatus } from '@prisma/client';
 import { logger } from '../utils/logger';
 import lndService from './lndService';
+import { DbService } from './dbService';
+import { ledgerService, SYSTEM_ACCOUNTS } from './ledgerService';
 
 export class LndMonitorService {
   private prisma: PrismaClient;
+  private dbService: DbService;
+  private unsubscribe: (() => void) | null = null;
   private interval: NodeJS.Timeout | null = null;
+  private checkingPayments = false;
+  private static readonly PAYMENT_CURSOR = 'lnd.payments.index_offset';
 
   constructor() {
     this.prisma = new PrismaClient();
+    this.dbService = new DbService();
   }
 
   /**
@@ -41,30 +48,38 @@ export class LndMonitorService {
   }
 
   /**
-   * Try to determine which account a transaction belongs to based on the memo
+   * Find the user account named by the USER_IDENTIFIER_PATTERN match in a memo
    */
-  private async determineAccountFromMemo(memo: string): Promise<string | null> {
-    // Check for user ID pattern in memo
+  private async findAccountByIdentifier(memo: string): Promise<string | null> {
     const userIdPattern = process.env.USER_IDENTIFIER_PATTERN;
-    if (userIdPattern) {
-      const pattern = new RegExp(userIdPattern);
-      const match = memo.match(pattern);
-      
-      if (match && match[1]) {
-        const userId = match[1];
-        // Try to find an account with this user ID as the name
-        const account = await this.prisma.account.findUnique({
-          where: { name: userId }
-        });
-        
-        if (account) {
-          return account.id;
-        }
-      }
+    if (!userIdPattern) {
+      return null;
+    }
+
+    const match = memo.match(new RegExp(userIdPattern));
+    if (!match || !match[1]) {
+      return null;
+    }
+
+    const account = await this.prisma.account.findUnique({
+      where: { name: match[1] }
+    });
+    return account && account.kind === AccountKind.USER ? account.id : null;
+  }
+
+  /**
+   * Try to determine which account an incoming invoice belongs to based on the memo
+   */
+  private async determineAccountFromMemo(memo: string): Promise<string | null> {
+    const accountId = await this.findAccountByIdentifier(memo);
+    if (accountId) {
+      return accountId;
     }
     
     // Fallback: Try to find an account mentioned by name in the memo
-    const accounts = await this.prisma.account.findMany();
+    const accounts = await this.prisma.account.findMany({
+      where: { kind: AccountKind.USER }
+    });
     for (const account of accounts) {
       if (memo.toLowerCase().includes(account.name.toLowerCase())) {
         return account.id;
@@ -77,108 +92,218 @@ export class LndMonitorService {
   }
 
   /**
-   * Find or create a default account for unmatched transactions
+   * Find the unassigned system account used for unmatched transactions
    */
   private async findDefaultAccount(): Promise<{ id: string } | null> {
-    // Look for an account named "default" or "unassigned"
-    let defaultAccount = await this.prisma.account.findFirst({
-      where: {
-        name: {
-          in: ['default', 'unassigned']
-        }
+    try {
+      const id = await ledgerService.getSystemAccountId(this.prisma, SYSTEM_ACCOUNTS.UNASSIGNED);
+      return { id };
+    } catch (error) {
+      logger.error('Failed to find unassigned account:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a settled invoice that no account has claimed yet
+   */
+  private handleInvoice = async (invoice: LndInvoice): Promise<void> => {
+    // Skip unsettled invoices
+    if (!invoice.settled) {
+      return;
+    }
+
+    // Get r_hash as hex string
+    const rHashHex = this.getRHashAsHex(invoice);
+
+    // Check if this invoice has already been recorded
+    const existingTransaction = await this.prisma.lightningTransaction.findUnique({
+      where: { rHash_type: { rHash: rHashHex, type: TransactionType.INCOMING } }
+    });
+
+    if (existingTransaction) {
+      // If it exists but wasn't completed, update it
+      if (existingTransaction.status !== TransactionStatus.COMPLETE) {
+        await this.dbService.updateTransactionStatus(existingTransaction.rHash, TransactionStatus.COMPLETE, TransactionType.INCOMING);
+        logger.info(`Updated transaction status for invoice ${existingTransaction.rHash}`);
       }
+      return;
+    }
+
+    // Try to determine the account from the memo
+    const accountId = await this.determineAccountFromMemo(invoice.memo || '');
+    if (!accountId) {
+      logger.warn(`Unable to determine account for invoice ${rHashHex}, memo: "${invoice.memo}"`);
+      return;
+    }
+
+    // Convert amount to string to ensure compatibility with database
+    const amountString = typeof invoice.value === 'number' 
+      ? invoice.value.toString() 
+      : invoice.value;
+
+    // Record the new transaction, which also posts it to the ledger
+    await this.dbService.createLightningTransaction({
+      accountId,
+      rHash: rHashHex,
+      amount: amountString,
+      type: TransactionType.INCOMING,
+      status: TransactionStatus.COMPLETE,
+      memo: invoice.memo || ''
     });
+
+    logger.info(`Recorded new incoming payment for account ${accountId}`);
+  };
+
+  /**
+   * Determine which account an outgoing payment made directly on the node belongs to,
+   * trying each rule in PAYMENT_ATTRIBUTION_RULES in turn and falling back to the unassigned account.
+   * The payee writes the description, so the memo rule only accepts an explicit user identifier.
+   */
+  private async determineAccountForPayment(payment: LndPayment, decoded: LndDecodedPaymentRequest | null): Promise<string | null> {
+    const rules = (process.env.PAYMENT_ATTRIBUTION_RULES ?? 'memo,destination')
+      .split(',')
+      .map(rule => rule.trim())
+      .filter(Boolean);
     
-    // If no default account exists, create one
-    if (!defaultAccount) {
-      try {
-        logger.info('Creating default account for unmatched transactions');
-        defaultAccount = await this.prisma.account.create({
-          data: {
-            name: 'default',
-            description: 'Default account for unmatched transactions'
+    for (const rule of rules) {
+      if (rule === 'memo' && decoded && decoded.description) {
+        const accountId = await this.findAccountByIdentifier(decoded.description);
+        if (accountId) {
+          return accountId;
+        }
+      } else if (rule === 'destination') {
+        const destination = decoded ? decoded.destination : this.getPaymentDestination(payment);
+        if (destination) {
+          const mapping = await this.dbService.getPaymentDestinationByPubkey(destination.toLowerCase());
+          if (mapping) {
+            return mapping.accountId;
           }
-        });
-        logger.info(`Created default account with ID: ${defaultAccount.id}`);
-      } catch (error) {
-        logger.error('Failed to create default account:', error);
-        return null;
+        }
       }
     }
     
-    return defaultAccount;
+    const defaultAccount = await this.findDefaultAccount();
+    return defaultAccount ? defaultAccount.id : null;
   }
 
-  private async checkForNewTransactions(): Promise<void> {
-    logger.debug('Checking for new LND transactions...');
+  /**
+   * Get the final hop of a payment's successful route, for payments without a payment request
+   */
+  private getPaymentDestination(payment: LndPayment): string | null {
+    const htlc = (payment.htlcs || []).find(attempt => attempt.status === 'SUCCEEDED') || (payment.htlcs || [])[0];
+    const hops = htlc && htlc.route ? htlc.route.hops : [];
+    return hops.length > 0 ? hops[hops.length - 1].pub_key : null;
+  }
+
+  /**
+   * Record a payment made directly on the node, or bring one of our pending payments up to date
+   */
+  private async handlePayment(payment: LndPayment): Promise<void> {
+    const rHash = payment.payment_hash;
+    const resolved = payment.status === 'SUCCEEDED' || payment.status === 'FAILED';
+    
+    const existingTransaction = await this.dbService.getTransactionByRHash(rHash, TransactionType.OUTGOING);
+    
+    if (existingTransaction) {
+      // Move our in-flight payment to its final status if the stream has not done so already
+      if (existingTransaction.status === TransactionStatus.PENDING && resolved) {
+        await lndService.handlePaymentUpdate(rHash, payment);
+      }
+      return;
+    }
+    
+    // A failed payment never left the node, so there is nothing to record
+    if (payment.status === 'FAILED') {
+      return;
+    }
+    
+    let decoded: LndDecodedPaymentRequest | null = null;
+    if (payment.payment_request) {
+      try {
+        decoded = await lndService.decodePaymentRequest(payment.payment_request);
+      } catch (error) {
+        logger.warn(`Unable to decode payment request for payment ${rHash}:`, error);
+      }
+    }
+    
+    const accountId = await this.determineAccountForPayment(payment, decoded);
+    if (!accountId) {
+      logger.warn(`Unable to determine account for payment ${rHash}`);
+      return;
+    }
+    
+    // Record it as pending first so that the fee is booked when the final result is applied
+    await this.dbService.createLightningTransaction({
+      accountId,
+      rHash,
+      amount: String(payment.value_sat || '0'),
+      type: TransactionType.OUTGOING,
+      status: TransactionStatus.PENDING,
+      memo: decoded ? decoded.description : ''
+    });
+    
+    logger.info(`Recorded new outgoing payment ${rHash} for account ${accountId}`);
+    
+    if (resolved) {
+      await lndService.handlePaymentUpdate(rHash, payment);
+    }
+  }
 
+  /**
+   * Page through LND payments from the saved offset. The offset only moves past a payment once
+   * it and every earlier payment have a final status, so in-flight payments are checked again next time.
+   * Without a saved offset, monitoring starts at LND's latest payment unless PAYMENT_BACKFILL is set.
+   */
+  private async checkForNewPayments(): Promise<void> {
+    if (this.checkingPayments) {
+      return;
+    }
+    this.checkingPayments = true;
+    
+    logger.debug('Checking for new LND payments...');
+    
     try {
-      // Get latest invoices from LND
-      const invoicesResponse = await lndService.listInvoices();
-      const invoices = invoicesResponse.invoices || [];
-
-      // Process settled invoices (incoming payments)
-      for (const invoice of invoices) {
-        // Skip unsettled invoices
-        if (!invoice.settled) {
-          continue;
+      let indexOffset = await this.dbService.getSyncCursor(LndMonitorService.PAYMENT_CURSOR);
+      if (indexOffset === null) {
+        indexOffset = process.env.PAYMENT_BACKFILL === 'true' ? '0' : await lndService.getLatestPaymentIndex();
+        logger.info(`Starting payment monitoring after LND payment index ${indexOffset}`);
+      }
+      let cursor = indexOffset;
+      let blocked = false;
+      
+      for (;;) {
+        const page = await lndService.listPaymentsFrom(indexOffset);
+        if (page.payments.length === 0) {
+          break;
         }
-
-        // Get r_hash as hex string
-        const rHashHex = this.getRHashAsHex(invoice);
-
-        // Check if this invoice has already been recorded
-        const existingTransaction = await this.prisma.lightningTransaction.findUnique({
-          where: { rHash: rHashHex }
-        });
-
-        if (existingTransaction) {
-          // If it exists but wasn't completed, update it
-          if (existingTransaction.status !== 'COMPLETE') {
-            await this.prisma.lightningTransaction.update({
-              where: { rHash: existingTransaction.rHash },
-              data: { status: 'COMPLETE' }
-            });
-            logger.info(`Updated transaction status for invoice ${existingTransaction.rHash}`);
+        
+        for (const payment of page.payments) {
+          await this.handlePayment(payment);
+          
+          blocked = blocked || (payment.status !== 'SUCCEEDED' && payment.status !== 'FAILED');
+          if (!blocked && payment.payment_index) {
+            cursor = payment.payment_index;
           }
-          continue;
         }
-
-        // Try to determine the account from the memo
-        const accountId = await this.determineAccountFromMemo(invoice.memo || '');
-        if (!accountId) {
-          logger.warn(`Unable to determine account for invoice ${rHashHex}, memo: "${invoice.memo}"`);
-          continue;
+        
+        if (!page.last_index_offset || page.last_index_offset === indexOffset) {
+          break;
         }
-
-        // Convert amount to string to ensure compatibility with database
-        const amountString = typeof invoice.value === 'number' 
-          ? invoice.value.toString() 
-          : invoice.value;
-
-        // Record the new transaction
-        await this.prisma.lightningTransaction.create({
-          data: {
-            accountId,
-            rHash: rHashHex,
-            amount: amountString,
-            type: 'INCOMING',
-            status: 'COMPLETE',
-            memo: invoice.memo || ''
-          }
-        });
-
-        logger.info(`Recorded new incoming payment for account ${accountId}`);
+        indexOffset = page.last_index_offset;
       }
-
-      // ... existing code for processing payments ...
+      
+      await this.dbService.setSyncCursor(LndMonitorService.PAYMENT_CURSOR, cursor);
     } catch (error) {
-      logger.error('Error checking for new transactions:', error);
+      logger.error('Error checking for new payments:', error);
+    } finally {
+      this.checkingPayments = false;
     }
   }
 
   /**
-   * Start monitoring LND for new transactions
+   * Start monitoring LND for new transactions.
+   * Invoices arrive through the LND service's invoice subscription; payments are polled.
    */
   start(intervalMs = 60000): void {
     if (this.interval) {
@@ -187,12 +312,14 @@ export class LndMonitorService {
     
     logger.info(`Starting LND monitor service (interval: ${intervalMs}ms)`);
     
+    this.unsubscribe = lndService.onInvoice(this.handleInvoice);
+    
     // Check immediately on start
-    this.checkForNewTransactions();
+    this.checkForNewPayments();
     
     // Then set up regular polling
     this.interval = setInterval(() => {
-      this.checkForNewTransactions();
+      this.checkForNewPayments();
     }, intervalMs);
   }
   
@@ -200,6 +327,11 @@ export class LndMonitorService {
    * Stop monitoring LND
    */
   stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    
     if (this.interval) {
       clearInterval(this.interval);
       this.interval = null;
@@ -0,0 +1,197 @@
+import { AccountStatus, JournalEntryType, PostingSide, TransactionStatus, TransactionType } from '@prisma/client';
+import { DbService } from './dbService';
+import { ledgerService, SYSTEM_ACCOUNTS } from './ledgerService';
+import { LndApiError, LndService } from './lndService';
+import { InMemoryPrisma } from '../testing/inMemoryPrisma';
+import { BadGatewayError, SpendingPolicyError, ValidationError } from '../utils/errors';
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+
+describe('LndService outgoing payments', () => {
+  let dbService: Record<string, jest.Mock>;
+  let service: LndService;
+  let trackPayment: jest.SpyInstance;
+
+  beforeEach(() => {
+    const pending = { rHash: PAYMENT_HASH, status: TransactionStatus.PENDING, type: TransactionType.OUTGOING };
+    dbService = {
+      getAccount: jest.fn().mockResolvedValue({ id: 'payer', status: AccountStatus.ACTIVE }),
+      reserveOutgoingPayment: jest.fn().mockResolvedValue(pending),
+      getTransactionByRHash: jest.fn().mockResolvedValue(pending),
+      failOutgoingPayment: jest.fn().mockResolvedValue(null)
+    };
+
+    service = new LndService('localhost:8080', 'macaroon', '', dbService as unknown as DbService);
+    jest.spyOn(service, 'decodePaymentRequest').mockResolvedValue({
+      payment_hash: PAYMENT_HASH,
+      num_satoshis: '1000',
+      destination: '02' + 'cd'.repeat(32),
+      description: ''
+    } as any);
+    jest.spyOn(service as any, 'isOwnNode').mockResolvedValue(false);
+    trackPayment = jest.spyOn(service, 'trackPayment').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    service.stopPaymentTracking();
+  });
+
+  it('keeps the payment reserved and tracks it when the stream closes before its first update', async () => {
+    jest.spyOn(service, 'sendPaymentV2').mockRejectedValue(new LndApiError('LND closed the payment stream without an update', 502));
+
+    const result = await service.sendPaymentFromAccount('payer', 'lnbc1...');
+
+    expect(result.transaction.status).toBe(TransactionStatus.PENDING);
+    expect(dbService.failOutgoingPayment).not.toHaveBeenCalled();
+    expect(trackPayment).toHaveBeenCalledWith(PAYMENT_HASH);
+  });
+
+  it('releases the reservation when LND refuses the payment before opening the stream', async () => {
+    const refused = new LndApiError('LND API error: 400', 400, '{"message":"invalid payment request"}');
+    jest.spyOn(service, 'sendPaymentV2').mockRejectedValue(refused);
+
+    await expect(service.sendPaymentFromAccount('payer', 'lnbc1...')).rejects.toBe(refused);
+
+    expect(dbService.failOutgoingPayment).toHaveBeenCalledWith(PAYMENT_HASH, refused.message);
+    expect(trackPayment).not.toHaveBeenCalled();
+  });
+
+  it('retries tracking a payment while LND cannot be reached', async () => {
+    jest.useFakeTimers();
+    try {
+      trackPayment.mockRejectedValueOnce(new LndApiError('LND request failed: connect ECONNREFUSED', 500));
+      dbService.getPendingOutgoingTransactions = jest.fn().mockResolvedValue([{ rHash: PAYMENT_HASH }]);
+
+      await service.resumePaymentTracking();
+      await Promise.resolve();
+      expect(trackPayment).toHaveBeenCalledTimes(1);
+
+      await jest.runOnlyPendingTimersAsync();
+      expect(trackPayment).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('LndService spending policy', () => {
+  let db: InMemoryPrisma;
+  let service: LndService;
+  let payerId: string;
+
+  beforeEach(() => {
+    db = new InMemoryPrisma();
+    const dbService = new DbService();
+    (dbService as unknown as { prisma: unknown }).prisma = db.client;
+    jest.spyOn(dbService, 'getAccount').mockResolvedValue({ id: 'payer', status: AccountStatus.ACTIVE } as any);
+
+    payerId = db.insert('accounts', { name: 'payer' }).id;
+    db.insert('spendingPolicies', { accountId: payerId, dailyLimit: BigInt(1000) });
+
+    service = new LndService('localhost:8080', 'macaroon', '', dbService);
+    jest.spyOn(service, 'decodePaymentRequest').mockResolvedValue({
+      payment_hash: PAYMENT_HASH,
+      num_satoshis: '45',
+      destination: '02' + 'cd'.repeat(32),
+      description: ''
+    } as any);
+    jest.spyOn(service as any, 'isOwnNode').mockResolvedValue(false);
+    jest.spyOn(service as any, 'notifyWebhooks').mockResolvedValue(undefined);
+  });
+
+  it('counts routing fees against the daily limit and reports the blocked payment', async () => {
+    // 945 sats of payments would fit the limit, but with their fees they do not
+    db.insert('lightningTransactions', {
+      accountId: payerId, rHash: 'a'.repeat(64), amount: '900', fee: '50', type: TransactionType.OUTGOING, status: TransactionStatus.COMPLETE
+    });
+    const sendPaymentV2 = jest.spyOn(service, 'sendPaymentV2');
+    const blocked = jest.fn();
+    service.on('payment.blocked', blocked);
+
+    const attempt = service.sendPaymentFromAccount(payerId, 'lnbc1...', { maxFeeSats: '10' });
+
+    await expect(attempt).rejects.toBeInstanceOf(SpendingPolicyError);
+    await expect(attempt).rejects.toMatchObject({ rule: 'daily_limit' });
+    expect(blocked).toHaveBeenCalledWith(expect.objectContaining({ accountId: payerId, rHash: PAYMENT_HASH, rule: 'daily_limit' }));
+    expect(sendPaymentV2).not.toHaveBeenCalled();
+    expect(db.tables.lightningTransactions).toHaveLength(1);
+  });
+});
+
+describe('LndService internal settlement', () => {
+  let db: InMemoryPrisma;
+  let service: LndService;
+  let cancelInvoice: jest.SpyInstance;
+  let payerId: string;
+  let payeeId: string;
+
+  beforeEach(async () => {
+    (ledgerService as unknown as { systemAccountIds: Map<string, string> }).systemAccountIds.clear();
+    db = new InMemoryPrisma();
+    const dbService = new DbService();
+    (dbService as unknown as { prisma: unknown }).prisma = db.client;
+    jest.spyOn(dbService, 'getAccount').mockResolvedValue({ id: 'payer', status: AccountStatus.ACTIVE } as any);
+
+    payerId = db.insert('accounts', { name: 'payer' }).id;
+    payeeId = db.insert('accounts', { name: 'payee' }).id;
+    const nodeAccountId = await ledgerService.getSystemAccountId(db.client, SYSTEM_ACCOUNTS.NODE_ASSET);
+    await ledgerService.postEntry(db.client, {
+      type: JournalEntryType.INVOICE_SETTLEMENT,
+      postings: [
+        { accountId: nodeAccountId, side: PostingSide.DEBIT, amount: BigInt(1000) },
+        { accountId: payerId, side: PostingSide.CREDIT, amount: BigInt(1000) }
+      ]
+    });
+
+    service = new LndService('localhost:8080', 'macaroon', '', dbService);
+    jest.spyOn(service as any, 'isOwnNode').mockResolvedValue(true);
+    jest.spyOn(service as any, 'notifyWebhooks').mockResolvedValue(undefined);
+    cancelInvoice = jest.spyOn(service, 'cancelInvoice').mockResolvedValue(undefined);
+  });
+
+  function ownInvoice(amount: string) {
+    jest.spyOn(service, 'decodePaymentRequest').mockResolvedValue({
+      payment_hash: PAYMENT_HASH,
+      num_satoshis: amount,
+      destination: '02' + 'ef'.repeat(32),
+      description: ''
+    } as any);
+    return db.insert('lightningTransactions', {
+      accountId: payeeId, rHash: PAYMENT_HASH, amount, type: TransactionType.INCOMING, status: TransactionStatus.PENDING
+    });
+  }
+
+  it('cancels the LND invoice before settling it in the ledger', async () => {
+    const invoice = ownInvoice('400');
+    cancelInvoice.mockImplementation(async () => {
+      expect(invoice.status).toBe(TransactionStatus.PENDING);
+    });
+
+    const result = await service.sendPaymentFromAccount(payerId, 'lnbc1...');
+
+    expect(result.internal).toBe(true);
+    expect(cancelInvoice).toHaveBeenCalledWith(PAYMENT_HASH);
+    expect(invoice.status).toBe(TransactionStatus.COMPLETE);
+    expect(db.postingBalances().get(payeeId)).toBe(BigInt(400));
+  });
+
+  it('settles nothing when LND cannot cancel the invoice', async () => {
+    const invoice = ownInvoice('400');
+    cancelInvoice.mockRejectedValue(new LndApiError('LND request failed: connect ECONNREFUSED', 500));
+
+    await expect(service.sendPaymentFromAccount(payerId, 'lnbc1...')).rejects.toBeInstanceOf(BadGatewayError);
+
+    expect(invoice.status).toBe(TransactionStatus.PENDING);
+    expect(db.tables.lightningTransactions).toHaveLength(1);
+    expect(db.postingBalances().get(payerId)).toBe(BigInt(1000));
+  });
+
+  it('refuses to settle an invoice without an amount', async () => {
+    ownInvoice('0');
+
+    await expect(service.sendPaymentFromAccount(payerId, 'lnbc1...')).rejects.toBeInstanceOf(ValidationError);
+
+    expect(cancelInvoice).not.toHaveBeenCalled();
+    expect(db.tables.lightningTransactions).toHaveLength(1);
+  });
+});
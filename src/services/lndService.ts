@@ -1,6 +1,5 @@
 import fs from 'fs';
 import * as https from 'https';
-import * as http from 'http';
 import { IncomingMessage } from 'http';
 import { logger } from '../utils/logger';
 import { 
@@ -10,14 +9,19 @@ import {
   LndCreateInvoiceRequest,
   LndCreateInvoiceResponse,
   LndDecodedPaymentRequest,
-  LndSendPaymentResponse,
+  LndPayment,
+  LndSendPaymentV2Request,
   LndInvoice
 } from '../types/lnd';
 import { DbService } from './dbService';
 import { EventEmitter } from 'events';
-import { TransactionType, TransactionStatus } from '@prisma/client';
-import * as crypto from 'crypto';
-import { WebhookSummary, WebhookInput } from '../models/interfaces';
+import { TransactionType, TransactionStatus, AccountStatus, AccountKind } from '@prisma/client';
+import { WebhookSummary, WebhookInput, CreateTransferInput, TransferSummary, AccountSummary, TransactionSummary, PaymentFeeOptions } from '../models/interfaces';
+import { SYSTEM_ACCOUNTS, ledgerService } from './ledgerService';
+import { webhookDeliveryService } from './webhookDeliveryService';
+import { eventLogService } from './eventLogService';
+import { generateWebhookSecret } from '../utils/webhookSignature';
+import { BadGatewayError, ConflictError, SpendingPolicyError } from '../utils/errors';
 // Replace node-fetch with built-in https
 // import fetch from 'node-fetch';
 // Replace ws module with a simple polling implementation since we don't have ws installed
@@ -100,6 +104,11 @@ interface WebhookConfig {
   events: string[];
 }
 
+/**
+ * Handler called for every invoice received from LND, before the stream cursor moves past it
+ */
+export type InvoiceHandler = (invoice: LndInvoice) => Promise<void>;
+
 /**
  * Interface for invoice subscription callback
  */
@@ -131,7 +140,25 @@ export class LndService extends EventEmitter {
   private webhooks: WebhookConfig[] = [];
   private invoiceCallbacks: Map<string, InvoiceCallback[]> = new Map();
   private pollingInterval: NodeJS.Timeout | null = null;
+  private identityPubkey?: string;
+  private readonly DEFAULT_FEE_LIMIT_PERCENT = 1;
+  private readonly MIN_FEE_LIMIT_SATS = 10;
+  private readonly PAYMENT_TIMEOUT_SECONDS = 60;
+  private readonly TRACK_RETRY_INTERVAL = 5000;
+  private readonly MAX_TRACK_RETRY_INTERVAL = 5 * 60 * 1000;
+  private paymentStreams: Map<string, () => void> = new Map();
+  private paymentRetries: Map<string, NodeJS.Timeout> = new Map();
   private readonly POLL_INTERVAL = 5000; // 5 seconds (changed from 10 seconds)
+  private readonly STREAM_RETRY_INTERVAL = 30000;
+  private static readonly ADD_INDEX_CURSOR = 'lnd.invoices.add_index';
+  private static readonly SETTLE_INDEX_CURSOR = 'lnd.invoices.settle_index';
+  private invoiceStream: (() => void) | null = null;
+  private invoiceStreamRetry: NodeJS.Timeout | null = null;
+  private invoiceSubscriptionActive = false;
+  private invoiceQueue: Promise<void> = Promise.resolve();
+  private invoiceHandlers: InvoiceHandler[] = [];
+  private addIndex = BigInt(0);
+  private settleIndex = BigInt(0);
 
   constructor(
     host: string = '',
@@ -168,11 +195,6 @@ export class LndService extends EventEmitter {
         logger.error('Error loading TLS certificate:', error);
       }
     }
-
-    // Initialize polling if properly configured
-    if (this.isConfigured()) {
-      this.setupPolling();
-    }
   }
 
   /**
@@ -183,7 +205,162 @@ export class LndService extends EventEmitter {
   }
 
   /**
-   * Setup polling for invoice updates
+   * Subscribe to invoice updates over LND's streaming endpoint, resuming from the
+   * add_index/settle_index saved by the previous run. Polling is used while the stream is down.
+   */
+  async startInvoiceSubscription(): Promise<void> {
+    if (!this.isConfigured()) {
+      logger.warn('LND service not fully configured, invoice subscription not started');
+      return;
+    }
+    
+    if (this.invoiceSubscriptionActive) {
+      return;
+    }
+    this.invoiceSubscriptionActive = true;
+    
+    try {
+      const [addIndex, settleIndex] = await Promise.all([
+        this.dbService.getSyncCursor(LndService.ADD_INDEX_CURSOR),
+        this.dbService.getSyncCursor(LndService.SETTLE_INDEX_CURSOR)
+      ]);
+      this.addIndex = BigInt(addIndex || '0');
+      this.settleIndex = BigInt(settleIndex || '0');
+    } catch (error) {
+      logger.error('Error loading invoice stream cursors, starting from the beginning:', error);
+    }
+    
+    this.openInvoiceStream();
+  }
+
+  /**
+   * Stop the invoice subscription and any fallback polling
+   */
+  public stopInvoiceSubscription(): void {
+    this.invoiceSubscriptionActive = false;
+    
+    if (this.invoiceStreamRetry) {
+      clearTimeout(this.invoiceStreamRetry);
+      this.invoiceStreamRetry = null;
+    }
+    
+    if (this.invoiceStream) {
+      this.invoiceStream();
+      this.invoiceStream = null;
+    }
+    
+    this.stopPolling();
+  }
+
+  /**
+   * Register a handler for every invoice received from LND.
+   * Returns a function that removes the handler.
+   */
+  onInvoice(handler: InvoiceHandler): () => void {
+    this.invoiceHandlers.push(handler);
+    
+    return () => {
+      this.invoiceHandlers = this.invoiceHandlers.filter(h => h !== handler);
+    };
+  }
+
+  /**
+   * Open the invoice stream from the last saved indexes
+   */
+  private openInvoiceStream(): void {
+    this.invoiceStreamRetry = null;
+    
+    if (!this.invoiceSubscriptionActive) {
+      return;
+    }
+    
+    logger.info(`Subscribing to LND invoices from add_index ${this.addIndex}, settle_index ${this.settleIndex}`);
+    
+    try {
+      this.invoiceStream = this.makeStreamRequest<LndInvoice>(
+        'GET',
+        `invoices/subscribe?add_index=${this.addIndex}&settle_index=${this.settleIndex}`,
+        undefined,
+        (invoice) => this.queueInvoice(invoice, true),
+        (error) => this.handleInvoiceStreamClosed(error)
+      );
+    } catch (error) {
+      this.handleInvoiceStreamClosed(error instanceof LndApiError ? error : undefined);
+      return;
+    }
+    
+    // The stream replays everything since the saved indexes, so polling is no longer needed
+    this.stopPolling();
+  }
+
+  /**
+   * Fall back to polling when the invoice stream drops, and retry the stream later
+   */
+  private handleInvoiceStreamClosed(error?: LndApiError): void {
+    this.invoiceStream = null;
+    
+    if (!this.invoiceSubscriptionActive) {
+      return;
+    }
+    
+    logger.warn(`LND invoice stream closed, polling until it reconnects in ${this.STREAM_RETRY_INTERVAL}ms`, error);
+    
+    if (!this.pollingInterval) {
+      this.setupPolling();
+    }
+    
+    if (!this.invoiceStreamRetry) {
+      this.invoiceStreamRetry = setTimeout(() => this.openInvoiceStream(), this.STREAM_RETRY_INTERVAL);
+    }
+  }
+
+  /**
+   * Process invoices one at a time, in the order LND sent them
+   */
+  private queueInvoice(invoice: LndInvoice, fromStream: boolean): void {
+    this.invoiceQueue = this.invoiceQueue
+      .then(() => this.applyInvoiceUpdate(invoice, fromStream))
+      .catch(error => {
+        logger.error('Error processing invoice update:', error);
+      });
+  }
+
+  /**
+   * Apply an invoice update and, for streamed invoices, save the indexes so it is not replayed after a restart
+   */
+  private async applyInvoiceUpdate(invoice: LndInvoice, fromStream: boolean): Promise<void> {
+    invoice.r_hash_str = lndUtils.toHexString(invoice.r_hash_str || invoice.r_hash);
+    
+    await this.handleInvoiceUpdate(invoice);
+    
+    for (const handler of this.invoiceHandlers) {
+      await handler(invoice);
+    }
+    
+    for (const { callback } of this.invoiceCallbacks.get(invoice.r_hash_str) || []) {
+      callback(invoice);
+    }
+    
+    // Polled invoices may skip over others, so only the stream moves the cursors
+    if (!fromStream) {
+      return;
+    }
+    
+    const addIndex = BigInt(invoice.add_index || '0');
+    if (addIndex > this.addIndex) {
+      this.addIndex = addIndex;
+      await this.dbService.setSyncCursor(LndService.ADD_INDEX_CURSOR, addIndex.toString());
+    }
+    
+    const settleIndex = BigInt(invoice.settle_index || '0');
+    if (settleIndex > this.settleIndex) {
+      this.settleIndex = settleIndex;
+      await this.dbService.setSyncCursor(LndService.SETTLE_INDEX_CURSOR, settleIndex.toString());
+    }
+  }
+
+  /**
+   * Setup polling for invoice updates, used while the invoice stream is unavailable
    */
   setupPolling(): void {
     if (!this.isConfigured()) {
@@ -191,10 +368,7 @@ export class LndService extends EventEmitter {
       return;
     }
 
-    // Set polling interval for invoice updates (5 seconds)
-    const POLL_INTERVAL = 5000;
-    
-    logger.info(`Starting LND invoice polling with ${POLL_INTERVAL}ms interval`);
+    logger.info(`Starting LND invoice polling with ${this.POLL_INTERVAL}ms interval`);
     
     this.pollingInterval = setInterval(async () => {
       try {
@@ -206,29 +380,16 @@ export class LndService extends EventEmitter {
           return;
         }
         
-        logger.info(`Polling found ${invoices.invoices.length} invoices to process`);
+        logger.debug(`Polling found ${invoices.invoices.length} invoices to process`);
         
-        // Process each invoice to update its status
+        // Process each invoice through the same queue as streamed updates
         for (const invoice of invoices.invoices) {
-          try {
-            // Extract the r_hash for identifying the invoice
-            const rHash = lndUtils.toHexString(invoice.r_hash_str || invoice.r_hash);
-            
-            // Check if this invoice has a memo we care about (should contain our account prefix)
-            if (!this.isOurInvoice(invoice)) {
-              // Skip invoices that don't have our prefix in the memo
-              continue;
-            }
-            
-            await this.handleInvoiceUpdate(invoice);
-          } catch (err) {
-            logger.error('Error processing invoice during polling:', err);
-          }
+          this.queueInvoice(invoice, false);
         }
       } catch (error) {
         logger.error('Error during invoice polling:', error);
       }
-    }, POLL_INTERVAL);
+    }, this.POLL_INTERVAL);
     
     logger.info('LND invoice polling started successfully');
   }
@@ -252,9 +413,14 @@ export class LndService extends EventEmitter {
     const rHash = lndUtils.toHexString(invoice.r_hash_str || invoice.r_hash);
     
     // Check if we need to process this invoice
-    const transaction = await this.dbService.getTransactionByRHash(rHash);
+    const transaction = await this.dbService.getTransactionByRHash(rHash, TransactionType.INCOMING);
     
     if (transaction) {
+      // Settled rows are final, including invoices we settled internally and then canceled in LND
+      if (transaction.status === TransactionStatus.COMPLETE) {
+        return;
+      }
+
       // This is an invoice we're tracking
       const newStatus = invoice.settled ? TransactionStatus.COMPLETE : 
                          invoice.state === 'CANCELED' ? TransactionStatus.FAILED : 
@@ -262,7 +428,7 @@ export class LndService extends EventEmitter {
       
       if (transaction.status !== newStatus) {
         // Update transaction status
-        await this.dbService.updateTransactionStatus(rHash, newStatus);
+        await this.dbService.updateTransactionStatus(rHash, newStatus, TransactionType.INCOMING);
         
         // Emit event for this update
         this.emit('invoice.updated', { rHash, status: newStatus, invoice });
@@ -283,8 +449,7 @@ export class LndService extends EventEmitter {
       if (userIdentifier) {
         try {
           // Try to find the account with this name
-          const accounts = await this.dbService.getAllAccounts();
-          const account = accounts.accounts.find(acc => acc.name === userIdentifier);
+          const account = await this.dbService.getAccountByName(userIdentifier);
           
           if (account) {
             // This is a payment for one of our tracked accounts
@@ -321,7 +486,8 @@ export class LndService extends EventEmitter {
   }
 
   /**
-   * Generic method to make requests to the LND REST API
+   * Generic method to make requests to the LND REST API.
+   * Endpoints are relative to /v1/ unless they start with a slash (e.g. '/v2/invoices/cancel').
    */
   private async makeRequest<T>(method: string, endpoint: string, data?: any): Promise<T> {
     if (!this.isConfigured()) {
@@ -341,7 +507,7 @@ export class LndService extends EventEmitter {
         method,
         hostname,
         port,
-        path: `/v1/${endpoint}`,
+        path: endpoint.startsWith('/') ? endpoint : `/v1/${endpoint}`,
         headers: {
           'Grpc-Metadata-macaroon': this.macaroonHex!,
         },
@@ -387,6 +553,107 @@ export class LndService extends EventEmitter {
     });
   }
 
+  /**
+   * Open a streaming request to the LND REST API.
+   * LND streams newline-delimited JSON objects wrapped as {"result": ...} or {"error": ...};
+   * onMessage receives each result and onClose is called once when the stream ends.
+   * Returns a function that closes the stream.
+   */
+  private makeStreamRequest<T>(
+    method: string,
+    endpoint: string,
+    data: any,
+    onMessage: (message: T) => void,
+    onClose: (error?: LndApiError) => void
+  ): () => void {
+    if (!this.isConfigured()) {
+      throw new LndApiError('LND connection not configured correctly', 500, '');
+    }
+
+    const [hostname, portStr] = this.host!.split(':');
+    const port = portStr ? parseInt(portStr, 10) : 8080;
+    
+    let closed = false;
+    const finish = (error?: LndApiError) => {
+      if (!closed) {
+        closed = true;
+        onClose(error);
+      }
+    };
+    
+    const req = https.request({
+      method,
+      hostname,
+      port,
+      path: endpoint.startsWith('/') ? endpoint : `/v1/${endpoint}`,
+      headers: {
+        'Grpc-Metadata-macaroon': this.macaroonHex!,
+      },
+      rejectUnauthorized: false,
+    }, (res: IncomingMessage) => {
+      if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
+        let body = '';
+        res.on('data', (chunk: Buffer) => {
+          body += chunk;
+        });
+        res.on('end', () => {
+          finish(new LndApiError(`LND API error: ${res.statusCode}`, res.statusCode || 500, body));
+        });
+        return;
+      }
+      
+      let buffer = '';
+      res.on('data', (chunk: Buffer) => {
+        buffer += chunk;
+        
+        let newline = buffer.indexOf('\n');
+        while (newline >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+          
+          if (!line) {
+            continue;
+          }
+          
+          let message: any;
+          try {
+            message = JSON.parse(line);
+          } catch (error) {
+            logger.warn(`Failed to parse LND stream message: ${line}`);
+            continue;
+          }
+          
+          if (message.error) {
+            finish(new LndApiError(`LND stream error: ${message.error.message || 'unknown'}`, 500, line));
+            req.destroy();
+            return;
+          }
+          
+          onMessage((message.result !== undefined ? message.result : message) as T);
+        }
+      });
+      
+      res.on('end', () => finish());
+      res.on('error', (error: Error) => finish(new LndApiError(`LND stream failed: ${error.message}`, 500)));
+    });
+    
+    req.on('error', (error) => {
+      finish(new LndApiError(`LND request failed: ${error.message}`, 500));
+    });
+    
+    if (data) {
+      req.write(JSON.stringify(data));
+    }
+    
+    req.end();
+    
+    return () => {
+      closed = true;
+      req.destroy();
+    };
+  }
+
   /**
    * Register a webhook for specific events
    */
@@ -405,96 +672,38 @@ export class LndService extends EventEmitter {
   }
 
   /**
-   * Helper method to send a webhook notification
+   * Logs an account event for SSE subscribers and sends it to the account's webhooks
    */
-  private async sendWebhookNotification(webhook: WebhookSummary, payload: any): Promise<void> {
+  private async notifyWebhooks(event: string, data: any): Promise<void> {
     try {
-      const url = new URL(webhook.url);
-      const requestData = JSON.stringify(payload);
-      const signature = this.generateWebhookSignature(webhook.secret, payload);
-      
-      return new Promise<void>((resolve, reject) => {
-        // Choose the appropriate request module based on the URL protocol
-        const requestModule = url.protocol === 'https:' ? https : http;
-        
-        logger.debug(`Sending webhook to ${webhook.url} using ${url.protocol} protocol`);
-        
-        const req = requestModule.request({
-          hostname: url.hostname,
-          port: url.port || (url.protocol === 'https:' ? 443 : 80),
-          path: url.pathname + url.search,
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Content-Length': Buffer.byteLength(requestData),
-            'X-Webhook-Signature': signature
-          }
-        }, (res: IncomingMessage) => {
-          let responseData = '';
-          
-          res.on('data', (chunk: Buffer) => {
-            responseData += chunk.toString();
-          });
-          
-          res.on('end', () => {
-            if (res.statusCode && (res.statusCode < 200 || res.statusCode >= 300)) {
-              logger.warn(`Webhook notification failed for ${webhook.url}: ${res.statusCode} ${res.statusMessage}`);
-              logger.debug(`Webhook response: ${responseData}`);
-            } else {
-              logger.debug(`Successfully sent webhook to ${webhook.url}`);
-            }
-            resolve();
-          });
-        });
-        
-        req.on('error', (error: Error) => {
-          logger.warn(`Error sending webhook notification to ${webhook.url}:`, error);
-          reject(error);
-        });
-        
-        req.write(requestData);
-        req.end();
-      });
+      await eventLogService.record(event, data);
     } catch (error: unknown) {
-      logger.error(`Error sending webhook notification to ${webhook.url}:`, error);
-      throw error;
+      logger.error(`Error logging ${event} event:`, error);
     }
-  }
-
-  /**
-   * Sends webhook notifications for invoice events
-   */
-  private async notifyWebhooks(event: string, data: any): Promise<void> {
+    
     try {
       if (!data.accountId) {
         logger.warn('Cannot send webhook notification: accountId is missing');
         return;
       }
       
-      // Check if there are any webhook configurations for this account
-      const webhooks = await this.dbService.getWebhooksByAccountId(data.accountId);
+      // Find the account's webhooks and all-accounts webhooks subscribed to this event
+      const webhooks = await this.dbService.getWebhooksForEvent(event, data.accountId);
       
       if (!webhooks || webhooks.length === 0) {
-        logger.debug(`No webhooks found for account ${data.accountId}`);
+        logger.debug(`No ${event} webhooks found for account ${data.accountId}`);
         return;
       }
       
       logger.info(`Sending ${event} webhook to ${webhooks.length} endpoints for account ${data.accountId}`);
       
-      // Send notifications to all configured webhooks
+      // Queue a delivery for every webhook; failed deliveries are retried by the worker
       const notificationPromises = webhooks
-        .filter(webhook => webhook.enabled)
         .map(async (webhook: WebhookSummary) => {
           try {
-            const payload = {
-              event,
-              data,
-              timestamp: new Date().toISOString()
-            };
-            
-            await this.sendWebhookNotification(webhook, payload);
+            await webhookDeliveryService.enqueue(webhook, event, data);
           } catch (error: unknown) {
-            logger.warn(`Error sending webhook notification to ${webhook.url}:`, error);
+            logger.warn(`Error queueing webhook notification for ${webhook.url}:`, error);
             // We don't want to fail the entire process if one webhook fails
           }
         });
@@ -505,15 +714,6 @@ export class LndService extends EventEmitter {
     }
   }
   
-  /**
-   * Generates a signature for webhook payloads
-   */
-  private generateWebhookSignature(secret: string, data: any): string {
-    const hmac = crypto.createHmac('sha256', secret);
-    hmac.update(JSON.stringify(data));
-    return hmac.digest('hex');
-  }
-
   /**
    * Get node info
    */
@@ -560,6 +760,49 @@ export class LndService extends EventEmitter {
     );
   }
 
+  /**
+   * Get a page of invoices in the order LND added them, starting after index_offset
+   */
+  async listInvoicesFrom(indexOffset: string, numMaxInvoices = 100): Promise<LndInvoicesResponse> {
+    const response = await this.makeRequest<LndInvoicesResponse>(
+      'GET',
+      `invoices?index_offset=${indexOffset}&num_max_invoices=${numMaxInvoices}&reversed=false&pending_only=false`
+    );
+    
+    response.invoices = (response.invoices || []).map(invoice => ({
+      ...invoice,
+      r_hash_str: lndUtils.toHexString(invoice.r_hash_str || invoice.r_hash)
+    }));
+    
+    return response;
+  }
+
+  /**
+   * Get a page of payments in the order LND created them, starting after index_offset
+   */
+  async listPaymentsFrom(indexOffset: string, maxPayments = 100): Promise<LndPaymentsResponse> {
+    const response = await this.makeRequest<LndPaymentsResponse>(
+      'GET',
+      `payments?include_incomplete=true&index_offset=${indexOffset}&max_payments=${maxPayments}&reversed=false`
+    );
+    
+    response.payments = response.payments || [];
+    
+    return response;
+  }
+
+  /**
+   * Get the index of the most recent payment LND has recorded, or '0' if there are none
+   */
+  async getLatestPaymentIndex(): Promise<string> {
+    const response = await this.makeRequest<LndPaymentsResponse>(
+      'GET',
+      'payments?include_incomplete=true&max_payments=1&reversed=true'
+    );
+    
+    return response.last_index_offset || '0';
+  }
+
   /**
    * Create a new invoice
    */
@@ -583,6 +826,11 @@ export class LndService extends EventEmitter {
         throw new Error(`Account not found: ${accountId}`);
       }
       
+      // Frozen accounts can still receive; closed accounts cannot
+      if (account.status === AccountStatus.CLOSED) {
+        throw new ConflictError(`Account ${accountId} is closed and cannot receive`);
+      }
+      
       // Append account identifier to memo if userIdPattern is configured
       let finalMemo = memo;
       if (this.userIdPattern) {
@@ -603,7 +851,8 @@ export class LndService extends EventEmitter {
         amount,
         type: TransactionType.INCOMING,
         status: TransactionStatus.PENDING,
-        memo: finalMemo
+        memo: finalMemo,
+        expiresAt: new Date(Date.now() + expiry * 1000)
       });
       
       // Emit event for the new invoice
@@ -638,103 +887,371 @@ export class LndService extends EventEmitter {
   }
 
   /**
-   * Send payment using a payment request
+   * Send a payment through the router (SendPaymentV2).
+   * Resolves with the first update from LND; later updates are handled as they stream in.
    */
-  async sendPayment(paymentRequest: string): Promise<LndSendPaymentResponse> {
-    return this.makeRequest<LndSendPaymentResponse>('POST', 'channels/transactions', {
-      payment_request: paymentRequest
+  async sendPaymentV2(paymentRequest: string, feeLimitSats: string, rHash: string): Promise<LndPayment> {
+    const request: LndSendPaymentV2Request = {
+      payment_request: paymentRequest,
+      fee_limit_sat: feeLimitSats,
+      timeout_seconds: parseInt(process.env.PAYMENT_TIMEOUT_SECONDS || String(this.PAYMENT_TIMEOUT_SECONDS), 10)
+    };
+    
+    return this.streamPaymentUpdates('POST', '/v2/router/send', request, rHash);
+  }
+
+  /**
+   * Follow an existing payment (TrackPaymentV2) until LND reports a final result
+   */
+  async trackPayment(rHash: string): Promise<LndPayment | null> {
+    if (this.paymentStreams.has(rHash)) {
+      return null;
+    }
+    
+    const hash = Buffer.from(rHash, 'hex').toString('base64url');
+    
+    try {
+      return await this.streamPaymentUpdates('GET', `/v2/router/track/${hash}`, undefined, rHash);
+    } catch (error) {
+      // LND has no record of the payment, so it was never sent (e.g. we stopped right after reserving)
+      if (error instanceof LndApiError && /not found|isn't initiated/i.test(`${error.message} ${error.responseData || ''}`)) {
+        await this.failPayment(rHash, 'Payment not found in LND');
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resume tracking every outgoing payment still pending in the database,
+   * so payments in flight when the server stopped are still resolved
+   */
+  async resumePaymentTracking(): Promise<void> {
+    if (!this.isConfigured()) {
+      return;
+    }
+    
+    try {
+      const pending = await this.dbService.getPendingOutgoingTransactions();
+      
+      if (pending.length > 0) {
+        logger.info(`Resuming tracking for ${pending.length} in-flight payments`);
+      }
+      
+      for (const transaction of pending) {
+        this.followPayment(transaction.rHash);
+      }
+    } catch (error) {
+      logger.error('Error resuming payment tracking:', error);
+    }
+  }
+
+  /**
+   * Track a payment, retrying with a growing delay while LND cannot be reached,
+   * so a payment that may be in flight is never left without a tracker
+   */
+  private followPayment(rHash: string, attempt = 0): void {
+    this.trackPayment(rHash).catch(error => {
+      const delay = Math.min(this.TRACK_RETRY_INTERVAL * 2 ** attempt, this.MAX_TRACK_RETRY_INTERVAL);
+      logger.warn(`Error tracking payment ${rHash}, retrying in ${delay}ms:`, error);
+      
+      this.schedulePaymentRetry(rHash, delay, attempt + 1);
+    });
+  }
+
+  /**
+   * Follow a payment again after a delay, unless tracking has been stopped
+   */
+  private schedulePaymentRetry(rHash: string, delay: number, attempt = 0): void {
+    clearTimeout(this.paymentRetries.get(rHash));
+    this.paymentRetries.set(rHash, setTimeout(() => {
+      this.paymentRetries.delete(rHash);
+      this.followPayment(rHash, attempt);
+    }, delay));
+  }
+
+  /**
+   * Stop all payment streams and pending retries
+   */
+  public stopPaymentTracking(): void {
+    for (const close of this.paymentStreams.values()) {
+      close();
+    }
+    this.paymentStreams.clear();
+    
+    for (const retry of this.paymentRetries.values()) {
+      clearTimeout(retry);
+    }
+    this.paymentRetries.clear();
+  }
+
+  /**
+   * Open a router stream for a payment, apply each update to the ledger, and
+   * re-track it if the stream drops before LND reports a final status
+   */
+  private streamPaymentUpdates(method: string, endpoint: string, data: any, rHash: string): Promise<LndPayment> {
+    return new Promise<LndPayment>((resolve, reject) => {
+      let firstUpdate = true;
+      let resolved = false;
+      
+      const close = this.makeStreamRequest<LndPayment>(
+        method,
+        endpoint,
+        data,
+        (payment) => {
+          if (payment.status === 'SUCCEEDED' || payment.status === 'FAILED') {
+            resolved = true;
+          }
+          
+          this.handlePaymentUpdate(rHash, payment)
+            .catch(error => logger.error(`Error handling payment update for ${rHash}:`, error))
+            .finally(() => {
+              if (firstUpdate) {
+                firstUpdate = false;
+                resolve(payment);
+              }
+            });
+        },
+        (error) => {
+          this.paymentStreams.delete(rHash);
+          
+          if (firstUpdate) {
+            firstUpdate = false;
+            reject(error || new LndApiError('LND closed the payment stream without an update', 502));
+            return;
+          }
+          
+          if (!resolved) {
+            logger.warn(`Payment stream for ${rHash} closed before a final status, re-tracking`, error);
+            this.schedulePaymentRetry(rHash, this.TRACK_RETRY_INTERVAL);
+          }
+        }
+      );
+      
+      this.paymentStreams.set(rHash, close);
     });
   }
 
+  /**
+   * Apply a payment update from LND to our outgoing transaction
+   */
+  async handlePaymentUpdate(rHash: string, payment: LndPayment): Promise<void> {
+    const attempts = payment.htlcs ? payment.htlcs.length : 0;
+    logger.debug(`Payment ${rHash} is ${payment.status} after ${attempts} HTLC attempts`);
+    
+    if (payment.status === 'SUCCEEDED') {
+      const transaction = await this.dbService.getTransactionByRHash(rHash, TransactionType.OUTGOING);
+      if (!transaction) {
+        logger.warn(`Received payment update for untracked payment ${rHash}`);
+        return;
+      }
+      
+      const fee = String(payment.fee_sat || '0');
+      const completed = await this.dbService.completeOutgoingPayment(rHash, fee);
+      
+      // Already resolved by another tracker
+      if (!completed) {
+        return;
+      }
+      
+      // Emit event for successful payment
+      this.emit('payment.completed', { 
+        rHash, 
+        accountId: completed.accountId, 
+        amount: completed.amount,
+        fee
+      });
+      
+      // Send webhook notification
+      this.notifyWebhooks('payment.completed', { 
+        rHash, 
+        accountId: completed.accountId,
+        amount: completed.amount,
+        fee,
+        attempts,
+        status: TransactionStatus.COMPLETE,
+        type: TransactionType.OUTGOING
+      });
+    } else if (payment.status === 'FAILED') {
+      await this.failPayment(rHash, payment.failure_reason || 'FAILURE_REASON_ERROR', attempts);
+    }
+  }
+
+  /**
+   * Mark an outgoing payment as failed and notify listeners
+   */
+  private async failPayment(rHash: string, reason: string, attempts = 0): Promise<void> {
+    const failed = await this.dbService.failOutgoingPayment(rHash, reason);
+    
+    // Already resolved by another tracker
+    if (!failed) {
+      return;
+    }
+    
+    // Emit event for failed payment
+    this.emit('payment.failed', { 
+      rHash, 
+      accountId: failed.accountId, 
+      error: reason 
+    });
+    
+    // Send webhook notification
+    this.notifyWebhooks('payment.failed', { 
+      rHash, 
+      accountId: failed.accountId,
+      amount: failed.amount,
+      error: reason,
+      attempts
+    });
+  }
+
+  /**
+   * Work out how many sats to set aside for routing fees on a payment.
+   * An explicit maxFeeSats wins; otherwise a percentage of the amount is used,
+   * defaulting to DEFAULT_FEE_LIMIT_PERCENT and never less than MIN_FEE_LIMIT_SATS.
+   */
+  calculateFeeLimit(amount: string, options: PaymentFeeOptions = {}): string {
+    if (options.maxFeeSats !== undefined) {
+      return BigInt(options.maxFeeSats).toString();
+    }
+    
+    const percent = options.feeLimitPercent !== undefined
+      ? options.feeLimitPercent
+      : parseFloat(process.env.DEFAULT_FEE_LIMIT_PERCENT || String(this.DEFAULT_FEE_LIMIT_PERCENT));
+    const minimum = options.feeLimitPercent !== undefined
+      ? 0
+      : parseInt(process.env.MIN_FEE_LIMIT_SATS || String(this.MIN_FEE_LIMIT_SATS), 10);
+    
+    const limit = Math.ceil(Number(amount) * percent / 100);
+    return String(Math.max(limit, minimum));
+  }
+
+  /**
+   * Check that FEE_SPONSOR_ACCOUNT names an open user account, so that payments are not
+   * refused, or fees left unbooked, because of a typo in the configuration
+   */
+  async validateFeeSponsor(): Promise<void> {
+    const sponsor = process.env.FEE_SPONSOR_ACCOUNT;
+    
+    if (!sponsor || sponsor === 'node') {
+      return;
+    }
+    
+    const account = await this.dbService.getClient().account.findUnique({
+      where: { id: sponsor }
+    });
+    
+    if (!account) {
+      throw new Error(`FEE_SPONSOR_ACCOUNT ${sponsor} does not exist`);
+    }
+    
+    if (account.kind !== AccountKind.USER) {
+      throw new Error(`FEE_SPONSOR_ACCOUNT ${sponsor} is a system account; use "node" to book fees as a node expense`);
+    }
+    
+    if (account.status === AccountStatus.CLOSED) {
+      throw new Error(`FEE_SPONSOR_ACCOUNT ${sponsor} is closed`);
+    }
+  }
+
+  /**
+   * Get the account that routing fees are charged to.
+   * FEE_SPONSOR_ACCOUNT may name an account ID, or 'node' to absorb fees as a node expense.
+   */
+  private async getFeeAccountId(payerAccountId: string): Promise<string> {
+    const sponsor = process.env.FEE_SPONSOR_ACCOUNT;
+    
+    if (!sponsor) {
+      return payerAccountId;
+    }
+    
+    if (sponsor === 'node') {
+      return ledgerService.getSystemAccountId(this.dbService.getClient(), SYSTEM_ACCOUNTS.FEES_EXPENSE);
+    }
+    
+    return sponsor;
+  }
+
   /**
    * Send payment from a specific account
    */
-  async sendPaymentFromAccount(accountId: string, paymentRequest: string): Promise<any> {
+  async sendPaymentFromAccount(accountId: string, paymentRequest: string, feeOptions: PaymentFeeOptions = {}): Promise<any> {
     try {
-      // Get the account to verify it exists and check balance
+      // Get the account to verify it exists
       const account = await this.dbService.getAccount(accountId);
       if (!account) {
         throw new Error(`Account not found: ${accountId}`);
       }
       
+      // Checked again under the account lock when the payment is reserved
+      if (account.status !== AccountStatus.ACTIVE) {
+        throw new ConflictError(`Account ${accountId} is ${account.status.toLowerCase()} and cannot spend`);
+      }
+      
       // Decode the payment request to get amount
       const decodedRequest = await this.decodePaymentRequest(paymentRequest);
       const amount = decodedRequest.num_satoshis !== undefined 
         ? String(decodedRequest.num_satoshis) 
         : '0';
       
-      // Get account balance from the getAccount call
-      const balance = account.balance;
-      
-      // Check if account has sufficient balance
-      if (BigInt(balance) < BigInt(amount)) {
-        throw new Error(`Insufficient balance: required ${amount}, available ${balance}`);
+      // Invoices issued by this node are settled in the ledger instead of via a self-payment
+      const rHash = lndUtils.toHexString(decodedRequest.payment_hash);
+      const destination = decodedRequest.destination || null;
+      const blocked = { accountId, rHash, amount, destination };
+      if (await this.isOwnNode(decodedRequest.destination)) {
+        const invoiceTransaction = await this.dbService.getTransactionByRHash(rHash, TransactionType.INCOMING);
+        if (invoiceTransaction && invoiceTransaction.status === TransactionStatus.PENDING) {
+          return this.reportBlockedPayment(
+            this.settleInternally(accountId, rHash, decodedRequest.description || '', destination),
+            blocked
+          );
+        }
       }
       
-      // First create a pending transaction
-      const rHash = lndUtils.toHexString(decodedRequest.payment_hash);
-      const transaction = await this.dbService.createLightningTransaction({
+      // Fee limit passed to LND; it is held against whichever account covers fees
+      const feeLimit = this.calculateFeeLimit(amount, feeOptions);
+      const feeAccountId = await this.getFeeAccountId(accountId);
+      
+      // Reserve the amount against the available balance as a pending transaction, and the fee limit
+      // against the payer or fee sponsor; this also enforces the account's spending policy
+      await this.reportBlockedPayment(this.dbService.reserveOutgoingPayment({
         accountId,
         rHash,
         amount,
+        feeReserve: feeLimit,
+        feeAccountId,
         type: TransactionType.OUTGOING,
-        status: TransactionStatus.PENDING,
         memo: decodedRequest.description || ''
-      });
+      }, destination), blocked);
       
       try {
-        // Send the payment through LND
-        const paymentResult = await this.sendPayment(paymentRequest);
+        // Hand the payment to LND's router; this resolves on the first status update
+        // and the stream keeps resolving the transaction in the background
+        const payment = await this.sendPaymentV2(paymentRequest, feeLimit, rHash);
         
-        // Update transaction to complete if payment was successful
-        if (paymentResult.payment_error) {
-          await this.dbService.updateTransactionStatus(rHash, TransactionStatus.FAILED);
-          
-          // Emit event for failed payment
-          this.emit('payment.failed', { 
-            rHash, 
-            accountId, 
-            error: paymentResult.payment_error 
-          });
-          
-          // Send webhook notification
-          this.notifyWebhooks('payment.failed', { 
-            rHash, 
-            accountId,
-            amount,
-            error: paymentResult.payment_error
-          });
-          
-          throw new Error(`Payment failed: ${paymentResult.payment_error}`);
-        } else {
-          await this.dbService.updateTransactionStatus(rHash, TransactionStatus.COMPLETE);
-          
-          // Emit event for successful payment
-          this.emit('payment.completed', { 
-            rHash, 
-            accountId, 
-            amount 
-          });
-          
-          // Send webhook notification
-          this.notifyWebhooks('payment.completed', { 
-            rHash, 
-            accountId,
-            amount,
-            status: TransactionStatus.COMPLETE,
-            type: TransactionType.OUTGOING
-          });
+        // Return both the latest LND payment update and our transaction
+        return {
+          payment,
+          transaction: await this.dbService.getTransactionByRHash(rHash, TransactionType.OUTGOING) // Get updated transaction
+        };
+      } catch (error) {
+        // A 4xx before the stream opened means LND refused the payment, so nothing was sent
+        // and the reservation can be released. An initial FAILED update resolves rather than
+        // throws, and has already failed the payment.
+        if (error instanceof LndApiError && error.statusCode >= 400 && error.statusCode < 500) {
+          await this.failPayment(rHash, error.message);
+          throw error;
         }
         
-        // Return both the LND payment result and our transaction
+        // Otherwise LND may already be routing the payment: keep the funds reserved and
+        // follow the payment until LND reports how it ended
+        logger.warn(`Payment stream for ${rHash} closed before its first update, tracking the payment:`, error);
+        this.followPayment(rHash);
+        
         return {
-          payment: paymentResult,
-          transaction: await this.dbService.getTransactionByRHash(rHash) // Get updated transaction
+          payment: null,
+          transaction: await this.dbService.getTransactionByRHash(rHash, TransactionType.OUTGOING)
         };
-      } catch (error) {
-        // If the payment fails, update the transaction status
-        await this.dbService.updateTransactionStatus(rHash, TransactionStatus.FAILED);
-        throw error;
       }
     } catch (error) {
       logger.error('Error sending payment from account:', error);
@@ -742,6 +1259,162 @@ export class LndService extends EventEmitter {
     }
   }
 
+  /**
+   * Emit payment.blocked if a payment is refused by its account's spending policy, then pass the result on
+   */
+  private async reportBlockedPayment<T>(
+    operation: Promise<T>,
+    payment: { accountId: string; rHash: string; amount: string; destination: string | null }
+  ): Promise<T> {
+    try {
+      return await operation;
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        this.emit('payment.blocked', { ...payment, rule: error.rule, reason: error.message });
+        this.notifyWebhooks('payment.blocked', { ...payment, rule: error.rule, reason: error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get this node's public key, cached after the first lookup
+   */
+  private async getIdentityPubkey(): Promise<string> {
+    if (!this.identityPubkey) {
+      const info = await this.getInfo();
+      this.identityPubkey = info.identity_pubkey;
+    }
+    return this.identityPubkey;
+  }
+
+  /**
+   * Check whether a payment destination is this node
+   */
+  private async isOwnNode(destination: string): Promise<boolean> {
+    if (!destination) {
+      return false;
+    }
+    
+    try {
+      return destination === await this.getIdentityPubkey();
+    } catch (error) {
+      logger.warn('Unable to determine own node pubkey, treating payment as external:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Cancel an open invoice
+   */
+  async cancelInvoice(rHash: string): Promise<void> {
+    await this.makeRequest<Record<string, never>>('POST', '/v2/invoices/cancel', {
+      payment_hash: Buffer.from(rHash, 'hex').toString('base64')
+    });
+  }
+
+  /**
+   * Settle a payment to one of our own invoices inside the ledger.
+   * The LND invoice is canceled once the payment has passed its checks, and the settlement is
+   * only committed if that succeeds: an invoice left open could also be paid from outside,
+   * and that payment would reach the node without being credited to any account.
+   */
+  private async settleInternally(accountId: string, rHash: string, memo: string, destination: string | null): Promise<any> {
+    const { outgoing, incoming } = await this.dbService.settleInternalPayment(accountId, rHash, memo, destination, async () => {
+      try {
+        await this.cancelInvoice(rHash);
+      } catch (error) {
+        logger.error(`Failed to cancel LND invoice ${rHash} for internal settlement:`, error);
+        throw new BadGatewayError('The invoice could not be canceled in LND, so it was not paid; try again later');
+      }
+    });
+    
+    logger.info(`Settled payment ${rHash} internally from account ${accountId} to account ${incoming.accountId}`);
+    
+    // Emit events for both sides of the payment
+    this.emit('payment.completed', { 
+      rHash, 
+      accountId, 
+      amount: outgoing.amount 
+    });
+    this.emit('invoice.updated', { rHash, status: TransactionStatus.COMPLETE });
+    
+    // Send webhook notifications
+    this.notifyWebhooks('payment.completed', { 
+      rHash, 
+      accountId,
+      amount: outgoing.amount,
+      status: TransactionStatus.COMPLETE,
+      type: TransactionType.OUTGOING
+    });
+    this.notifyWebhooks('invoice.updated', { 
+      rHash, 
+      status: TransactionStatus.COMPLETE,
+      accountId: incoming.accountId,
+      amount: incoming.amount,
+      type: TransactionType.INCOMING
+    });
+    
+    return {
+      payment: null,
+      internal: true,
+      transaction: outgoing
+    };
+  }
+
+  /**
+   * Move funds between two accounts on this node without sending anything through LND
+   */
+  async transferBetweenAccounts(input: CreateTransferInput): Promise<{ transfer: TransferSummary; created: boolean }> {
+    try {
+      const result = await this.dbService.createTransfer(input);
+
+      // Retries with a known idempotency key do not notify again
+      if (result.created) {
+        this.notifyTransfer(result.transfer);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Error transferring between accounts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close an account, sweeping any remaining balance to another account
+   */
+  async closeAccount(accountId: string, sweepToAccountId?: string): Promise<{ account: AccountSummary; sweep: TransferSummary | null }> {
+    const result = await this.dbService.closeAccount(accountId, sweepToAccountId);
+
+    logger.info(`Closed account ${accountId}${result.sweep ? `, swept ${result.sweep.amount} sats to ${result.sweep.toAccountId}` : ''}`);
+
+    if (result.sweep) {
+      this.notifyTransfer(result.sweep);
+    }
+
+    return result;
+  }
+
+  /**
+   * Emit events and webhooks for a completed transfer to both sides of it
+   */
+  private notifyTransfer(transfer: TransferSummary): void {
+    // Emit event for the completed transfer
+    this.emit('transfer.completed', { transfer });
+
+    // Send webhook notifications to both sides of the transfer
+    const data = {
+      transferId: transfer.id,
+      fromAccountId: transfer.fromAccountId,
+      toAccountId: transfer.toAccountId,
+      amount: transfer.amount,
+      memo: transfer.memo
+    };
+    this.notifyWebhooks('transfer.completed', { ...data, accountId: transfer.fromAccountId, direction: 'OUTGOING' });
+    this.notifyWebhooks('transfer.completed', { ...data, accountId: transfer.toAccountId, direction: 'INCOMING' });
+  }
+
   /**
    * Process an incoming invoice
    */
@@ -771,8 +1444,8 @@ export class LndService extends EventEmitter {
    * Process an outgoing payment
    * This method handles the full flow of sending a payment from an account
    */
-  async processOutgoingPayment(accountId: string, paymentRequest: string): Promise<any> {
-    return this.sendPaymentFromAccount(accountId, paymentRequest);
+  async processOutgoingPayment(accountId: string, paymentRequest: string, feeOptions: PaymentFeeOptions = {}): Promise<any> {
+    return this.sendPaymentFromAccount(accountId, paymentRequest, feeOptions);
   }
 
   /**
@@ -812,7 +1485,7 @@ export class LndService extends EventEmitter {
           
           // Update the status in our database if changed
           if (transaction.status !== newStatus) {
-            await this.dbService.updateTransactionStatus(rHash, newStatus);
+            await this.dbService.updateTransactionStatus(rHash, newStatus, transaction.type);
             logger.info(`Updated transaction status from ${transaction.status} to ${newStatus}`);
           }
           
@@ -847,7 +1520,7 @@ export class LndService extends EventEmitter {
         
         // Update the status in our database if changed
         if (transaction.status !== newStatus) {
-          await this.dbService.updateTransactionStatus(rHash, newStatus);
+          await this.dbService.updateTransactionStatus(rHash, newStatus, transaction.type);
           logger.info(`Updated transaction status from ${transaction.status} to ${newStatus}`);
           
           // If the payment was settled, send webhook notification
@@ -918,6 +1591,62 @@ export class LndService extends EventEmitter {
     };
   }
 
+  /**
+   * Wait for an incoming invoice to leave PENDING and return its transaction. If timeoutMs
+   * passes or the signal is aborted first, the transaction is returned as it stands.
+   */
+  waitForInvoice(rHash: string, timeoutMs: number, signal?: AbortSignal): Promise<TransactionSummary | null> {
+    return new Promise<TransactionSummary | null>((resolve, reject) => {
+      let finished = false;
+      let unsubscribe: (() => void) | null = null;
+      
+      const finish = () => {
+        if (finished) return;
+        finished = true;
+        
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', finish);
+        if (unsubscribe) unsubscribe();
+        
+        this.dbService.getTransactionByRHash(rHash, TransactionType.INCOMING).then(resolve, reject);
+      };
+      
+      // Go by our row rather than the LND invoice: invoices paid inside the ledger are canceled in LND once settled
+      const check = () => {
+        this.dbService.getTransactionByRHash(rHash, TransactionType.INCOMING)
+          .then(transaction => {
+            if (!transaction || transaction.status !== TransactionStatus.PENDING) {
+              finish();
+            }
+          })
+          .catch(error => {
+            logger.error(`Error checking invoice ${rHash} while waiting for it:`, error);
+          });
+      };
+      
+      const timer = setTimeout(finish, timeoutMs);
+      signal?.addEventListener('abort', finish);
+      
+      // The callback is registered before the first check, so an update in between is not missed
+      this.subscribeToSingleInvoice(rHash, check)
+        .then(unsubscribeFromInvoice => {
+          if (finished) {
+            unsubscribeFromInvoice();
+          } else {
+            unsubscribe = unsubscribeFromInvoice;
+            check();
+          }
+        })
+        .catch(error => {
+          logger.error(`Error subscribing to invoice ${rHash}:`, error);
+        });
+      
+      if (signal?.aborted) {
+        finish();
+      }
+    });
+  }
+
   /**
    * Get multiple invoices by their r_hash values
    * This is more efficient than checking each invoice individually
@@ -988,7 +1717,7 @@ export class LndService extends EventEmitter {
         // Check if invoice is settled
         if (invoice.settled) {
           // Update the invoice in the database
-          await this.dbService.updateTransactionStatus(rHash, TransactionStatus.COMPLETE);
+          await this.dbService.updateTransactionStatus(rHash, TransactionStatus.COMPLETE, TransactionType.INCOMING);
           
           // Trigger webhook notification if necessary
           await this.notifyWebhooks('invoice.updated', { 
@@ -1014,7 +1743,7 @@ export class LndService extends EventEmitter {
   async createWebhookForAccount(accountId: string, url: string, secret: string = ''): Promise<WebhookSummary> {
     try {
       // Generate a secret if none provided
-      const webhookSecret = secret || crypto.randomBytes(32).toString('hex');
+      const webhookSecret = secret || generateWebhookSecret();
       
       // Create the webhook in database
       const webhook = await this.dbService.createWebhook({
@@ -1089,8 +1818,8 @@ export class LndService extends EventEmitter {
   // Process invoice update webhook notifications
   private async processInvoiceWebhooks(invoice: any, accountId: string): Promise<void> {
     try {
-      // Get all webhooks for this account
-      const webhooks = await this.dbService.getWebhooksByAccountId(accountId);
+      // Get the webhooks subscribed to invoice updates for this account
+      const webhooks = await this.dbService.getWebhooksForEvent('invoice.updated', accountId);
       
       if (!webhooks || webhooks.length === 0) {
         logger.debug(`No webhooks found for account ${accountId}`);
@@ -1110,21 +1839,14 @@ export class LndService extends EventEmitter {
         .filter(webhook => webhook.enabled)
         .map(async (webhook) => {
           try {
-            // Prepare webhook notification
-            const payload = {
-              event: 'invoice.updated',
-              data: {
-                rHash,
-                accountId,
-                status: invoice.settled ? TransactionStatus.COMPLETE : TransactionStatus.PENDING,
-                amount,
-                type: TransactionType.INCOMING
-              },
-              timestamp: new Date().toISOString()
-            };
-            
-            // Send the webhook notification using our helper method
-            await this.sendWebhookNotification(webhook, payload);
+            // Queue the webhook notification for delivery
+            await webhookDeliveryService.enqueue(webhook, 'invoice.updated', {
+              rHash,
+              accountId,
+              status: invoice.settled ? TransactionStatus.COMPLETE : TransactionStatus.PENDING,
+              amount,
+              type: TransactionType.INCOMING
+            });
           } catch (error: unknown) {
             logger.error(`Error sending invoice webhook to ${webhook.url}:`, error);
           }
@@ -0,0 +1,291 @@
+import { TransactionType, TransactionStatus } from '@prisma/client';
+import { LndInvoice, LndPayment } from '../types/lnd';
+import { ReconciliationIssue, ReconciliationReport, TransactionSummary } from '../models/interfaces';
+import { ConflictError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import lndService from './lndService';
+import { DbService } from './dbService';
+import { ledgerService, SYSTEM_ACCOUNTS } from './ledgerService';
+
+/**
+ * Compares the full LND invoice and payment history against lightning_transactions,
+ * paging through LND with index offsets so nothing older than the latest page is missed
+ */
+export class ReconciliationService {
+  private dbService: DbService;
+  private interval: NodeJS.Timeout | null = null;
+  private running = false;
+  private lastReport: ReconciliationReport | null = null;
+  private readonly PAGE_SIZE = 100;
+
+  constructor() {
+    this.dbService = new DbService();
+  }
+
+  /**
+   * Get the report of the most recent sweep
+   */
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Run a full sweep. With repair enabled, missing rows are recorded against the
+   * unassigned account and status mismatches are corrected; amount mismatches are only reported.
+   */
+  async run(repair = false): Promise<ReconciliationReport> {
+    if (this.running) {
+      throw new ConflictError('A reconciliation sweep is already running');
+    }
+    this.running = true;
+
+    const report: ReconciliationReport = {
+      repair,
+      invoicesScanned: 0,
+      paymentsScanned: 0,
+      missing: [],
+      statusMismatches: [],
+      amountMismatches: [],
+      startedAt: new Date(),
+      finishedAt: new Date()
+    };
+
+    try {
+      logger.info(`Starting reconciliation sweep${repair ? ' with repair' : ''}`);
+
+      await this.reconcileInvoices(report);
+      await this.reconcilePayments(report);
+
+      report.finishedAt = new Date();
+      this.lastReport = report;
+
+      logger.info(
+        `Reconciliation finished: ${report.invoicesScanned} invoices, ${report.paymentsScanned} payments, ` +
+        `${report.missing.length} missing, ${report.statusMismatches.length} status and ` +
+        `${report.amountMismatches.length} amount mismatches`
+      );
+
+      return report;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Page through every invoice and compare it with the INCOMING rows
+   */
+  private async reconcileInvoices(report: ReconciliationReport): Promise<void> {
+    let indexOffset = '0';
+
+    for (;;) {
+      const page = await lndService.listInvoicesFrom(indexOffset, this.PAGE_SIZE);
+      if (page.invoices.length === 0) {
+        return;
+      }
+
+      const rows = await this.dbService.getTransactionsByRHashes(
+        page.invoices.map(invoice => invoice.r_hash_str!),
+        TransactionType.INCOMING
+      );
+      const rowsByHash = new Map(rows.map(row => [row.rHash, row]));
+
+      for (const invoice of page.invoices) {
+        report.invoicesScanned++;
+        await this.reconcileInvoice(invoice, rowsByHash.get(invoice.r_hash_str!), report);
+      }
+
+      if (!page.last_index_offset || page.last_index_offset === indexOffset) {
+        return;
+      }
+      indexOffset = page.last_index_offset;
+    }
+  }
+
+  private async reconcileInvoice(invoice: LndInvoice, row: TransactionSummary | undefined, report: ReconciliationReport): Promise<void> {
+    const rHash = invoice.r_hash_str!;
+    const status = this.getInvoiceStatus(invoice);
+    const amount = invoice.settled && Number(invoice.amt_paid_sat || 0) > 0
+      ? String(invoice.amt_paid_sat)
+      : String(invoice.value || '0');
+
+    if (!row) {
+      // Only settled invoices moved funds; open and canceled ones without a row are expected
+      if (status !== TransactionStatus.COMPLETE) {
+        return;
+      }
+
+      await this.recordIssue(report.missing, { rHash, type: TransactionType.INCOMING, expected: status, actual: null }, report.repair, async () => {
+        await this.dbService.createLightningTransaction({
+          accountId: await this.getUnassignedAccountId(),
+          rHash,
+          amount,
+          type: TransactionType.INCOMING,
+          status: TransactionStatus.COMPLETE,
+          memo: invoice.memo || ''
+        });
+      });
+      return;
+    }
+
+    if (row.status !== status) {
+      // Invoices paid inside the ledger are canceled in LND once settled
+      const settledInternally = row.status === TransactionStatus.COMPLETE &&
+        status === TransactionStatus.FAILED &&
+        Boolean(await this.dbService.getTransactionByRHash(rHash, TransactionType.OUTGOING));
+
+      if (!settledInternally) {
+        await this.recordIssue(report.statusMismatches, { rHash, type: TransactionType.INCOMING, expected: status, actual: row.status }, report.repair, async () => {
+          await this.dbService.updateTransactionStatus(rHash, status, TransactionType.INCOMING);
+        });
+      }
+    }
+
+    if (status === TransactionStatus.COMPLETE && BigInt(row.amount) !== BigInt(amount)) {
+      await this.recordIssue(report.amountMismatches, { rHash, type: TransactionType.INCOMING, expected: amount, actual: row.amount }, false);
+    }
+  }
+
+  /**
+   * Page through every payment, including incomplete ones, and compare it with the OUTGOING rows
+   */
+  private async reconcilePayments(report: ReconciliationReport): Promise<void> {
+    let indexOffset = '0';
+
+    for (;;) {
+      const page = await lndService.listPaymentsFrom(indexOffset, this.PAGE_SIZE);
+      if (page.payments.length === 0) {
+        return;
+      }
+
+      const rows = await this.dbService.getTransactionsByRHashes(
+        page.payments.map(payment => payment.payment_hash),
+        TransactionType.OUTGOING
+      );
+      const rowsByHash = new Map(rows.map(row => [row.rHash, row]));
+
+      for (const payment of page.payments) {
+        report.paymentsScanned++;
+        await this.reconcilePayment(payment, rowsByHash.get(payment.payment_hash), report);
+      }
+
+      if (!page.last_index_offset || page.last_index_offset === indexOffset) {
+        return;
+      }
+      indexOffset = page.last_index_offset;
+    }
+  }
+
+  private async reconcilePayment(payment: LndPayment, row: TransactionSummary | undefined, report: ReconciliationReport): Promise<void> {
+    const rHash = payment.payment_hash;
+    const status = this.getPaymentStatus(payment);
+    const amount = String(payment.value_sat || '0');
+
+    if (!row) {
+      // Failed payments never left the node
+      if (status === TransactionStatus.FAILED) {
+        return;
+      }
+
+      await this.recordIssue(report.missing, { rHash, type: TransactionType.OUTGOING, expected: status, actual: null }, report.repair, async () => {
+        // Record it as pending first so that the fee is booked when the final result is applied
+        await this.dbService.createLightningTransaction({
+          accountId: await this.getUnassignedAccountId(),
+          rHash,
+          amount,
+          type: TransactionType.OUTGOING,
+          status: TransactionStatus.PENDING,
+          memo: ''
+        });
+        await lndService.handlePaymentUpdate(rHash, payment);
+      });
+      return;
+    }
+
+    if (row.status !== status) {
+      await this.recordIssue(report.statusMismatches, { rHash, type: TransactionType.OUTGOING, expected: status, actual: row.status }, report.repair, async () => {
+        if (row.status === TransactionStatus.PENDING) {
+          await lndService.handlePaymentUpdate(rHash, payment);
+        } else {
+          await this.dbService.updateTransactionStatus(rHash, status, TransactionType.OUTGOING);
+        }
+      });
+    }
+
+    if (BigInt(row.amount) !== BigInt(amount)) {
+      await this.recordIssue(report.amountMismatches, { rHash, type: TransactionType.OUTGOING, expected: amount, actual: row.amount }, false);
+    }
+  }
+
+  /**
+   * Add an issue to the report, repairing it first when asked to
+   */
+  private async recordIssue(
+    issues: ReconciliationIssue[],
+    issue: Omit<ReconciliationIssue, 'repaired'>,
+    repair: boolean,
+    fix?: () => Promise<void>
+  ): Promise<void> {
+    const entry: ReconciliationIssue = { ...issue, repaired: false };
+
+    if (repair && fix) {
+      try {
+        await fix();
+        entry.repaired = true;
+        logger.info(`Repaired ${issue.type} transaction ${issue.rHash}: expected ${issue.expected}, had ${issue.actual}`);
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+        logger.error(`Failed to repair ${issue.type} transaction ${issue.rHash}:`, error);
+      }
+    } else {
+      logger.warn(`Reconciliation: ${issue.type} transaction ${issue.rHash} expected ${issue.expected}, had ${issue.actual}`);
+    }
+
+    issues.push(entry);
+  }
+
+  private getInvoiceStatus(invoice: LndInvoice): TransactionStatus {
+    return invoice.settled ? TransactionStatus.COMPLETE :
+      invoice.state === 'CANCELED' ? TransactionStatus.FAILED :
+      TransactionStatus.PENDING;
+  }
+
+  private getPaymentStatus(payment: LndPayment): TransactionStatus {
+    return payment.status === 'SUCCEEDED' ? TransactionStatus.COMPLETE :
+      payment.status === 'FAILED' ? TransactionStatus.FAILED :
+      TransactionStatus.PENDING;
+  }
+
+  private async getUnassignedAccountId(): Promise<string> {
+    return ledgerService.getSystemAccountId(this.dbService.getClient(), SYSTEM_ACCOUNTS.UNASSIGNED);
+  }
+
+  /**
+   * Run a sweep on a fixed interval
+   */
+  start(intervalMs: number, repair = false): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting reconciliation job (interval: ${intervalMs}ms, repair: ${repair})`);
+
+    this.interval = setInterval(() => {
+      this.run(repair).catch(error => {
+        logger.error('Error during reconciliation sweep:', error);
+      });
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the periodic sweep
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped reconciliation job');
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,74 @@
+import { SpendingTokenService } from './spendingTokenService';
+import { attenuateSpendingToken, decodeSpendingToken, SPENDING_TOKEN_PREFIX } from '../utils/spendingToken';
+
+const ACCOUNT_ID = '3a7c1e9b-3b2a-4e3f-9c4d-5e6f7a8b9c0d';
+const PAY = ['POST', '/api/invoices/outgoing'] as const;
+
+/**
+ * Re-encodes a token with its payload changed but its signature kept
+ */
+function tamper(token: string, change: (caveats: string[]) => string[]): string {
+  const decoded = decodeSpendingToken(token)!;
+  const payload = { ...decoded, caveats: change([...decoded.caveats]) };
+  return `${SPENDING_TOKEN_PREFIX}${Buffer.from(JSON.stringify(payload)).toString('base64url')}`;
+}
+
+describe('SpendingTokenService', () => {
+  const originalRootKey = process.env.SPENDING_TOKEN_ROOT_KEY;
+  let service: SpendingTokenService;
+  let token: string;
+
+  beforeEach(() => {
+    process.env.SPENDING_TOKEN_ROOT_KEY = 'test-root-key';
+    service = new SpendingTokenService();
+    token = service.mint({ accountId: ACCOUNT_ID, maxAmount: BigInt(5000), dailyBudget: BigInt(20000) }).token;
+  });
+
+  afterAll(() => {
+    process.env.SPENDING_TOKEN_ROOT_KEY = originalRootKey;
+  });
+
+  it('accepts a minted token', () => {
+    const principal = service.authenticate(token, ...PAY);
+
+    expect(principal?.accountIds).toEqual([ACCOUNT_ID]);
+    expect(principal?.spendingToken?.maxAmount).toBe(BigInt(5000));
+  });
+
+  it('lets an attenuated token only narrow the limits', () => {
+    const narrowed = attenuateSpendingToken(token, ['max_amount=100', 'max_amount=9000']);
+
+    expect(service.authenticate(narrowed, ...PAY)?.spendingToken?.maxAmount).toBe(BigInt(100));
+  });
+
+  it('rejects attenuated tokens whose caveats do not hold', () => {
+    const past = Math.floor(Date.now() / 1000) - 60;
+
+    expect(service.authenticate(attenuateSpendingToken(token, ['account=another-account']), ...PAY)).toBeNull();
+    expect(service.authenticate(attenuateSpendingToken(token, ['routes=GET /api/accounts/:id']), ...PAY)).toBeNull();
+    expect(service.authenticate(attenuateSpendingToken(token, [`expires=${past}`]), ...PAY)).toBeNull();
+    expect(service.authenticate(attenuateSpendingToken(token, ['max_amount=lots']), ...PAY)).toBeNull();
+    expect(service.authenticate(attenuateSpendingToken(token, ['admin=true']), ...PAY)).toBeNull();
+  });
+
+  it('rejects tokens whose caveats were changed or removed', () => {
+    const raised = tamper(token, caveats => caveats.map(caveat => caveat.startsWith('max_amount=') ? 'max_amount=5000000' : caveat));
+    const unlimited = tamper(token, caveats => caveats.filter(caveat => !caveat.startsWith('daily_budget=')));
+    const narrowed = attenuateSpendingToken(token, ['max_amount=100']);
+    const stripped = tamper(narrowed, caveats => caveats.slice(0, -1));
+
+    expect(service.authenticate(raised, ...PAY)).toBeNull();
+    expect(service.authenticate(unlimited, ...PAY)).toBeNull();
+    expect(service.authenticate(stripped, ...PAY)).toBeNull();
+  });
+
+  it('rejects tokens signed with another root key', () => {
+    process.env.SPENDING_TOKEN_ROOT_KEY = 'rotated-root-key';
+
+    expect(service.authenticate(token, ...PAY)).toBeNull();
+  });
+
+  it('rejects requests outside the routes a token can ever use', () => {
+    expect(service.authenticate(token, 'POST', '/api/api-keys')).toBeNull();
+  });
+});
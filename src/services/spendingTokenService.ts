@@ -0,0 +1,186 @@
+import * as crypto from 'crypto';
+import { ApiKeyPrincipal, SpendingTokenClaims } from '../models/interfaces';
+import { ForbiddenError, InternalServerError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { formatCaveat, matchesRoute, mintSpendingToken, verifySpendingToken } from '../utils/spendingToken';
+import { DbService } from './dbService';
+import { API_KEY_SCOPES } from './apiKeyService';
+
+/**
+ * Requests a spending token can ever make; a routes caveat can narrow this further
+ */
+export const SPENDING_TOKEN_ROUTES = [
+  'POST /api/invoices/outgoing',
+  'GET /api/invoices/status/:rHash',
+  'GET /api/accounts/:id',
+  'GET /api/accounts/:id/balance',
+  'GET /api/accounts/:id/transactions',
+  'GET /api/accounts/:id/events',
+  'GET /api/transactions/:rHash'
+];
+
+// Window the daily budget applies to
+const BUDGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface MintSpendingTokenOptions {
+  accountId: string;
+  maxAmount?: bigint;
+  dailyBudget?: bigint;
+  routes?: string[];
+  expiresAt?: Date;
+}
+
+/**
+ * Mints and verifies delegated spending tokens and enforces their payment limits
+ */
+export class SpendingTokenService {
+  private dbService: DbService;
+
+  constructor() {
+    this.dbService = new DbService();
+  }
+
+  /**
+   * Whether a root key is configured; without one tokens can be neither minted nor accepted
+   */
+  isConfigured(): boolean {
+    return Boolean(this.getRootKey());
+  }
+
+  /**
+   * Mint a token for an account with the given limits
+   */
+  mint(options: MintSpendingTokenOptions): { id: string; token: string; caveats: string[] } {
+    const rootKey = this.getRootKey();
+    if (!rootKey) {
+      throw new InternalServerError('Spending tokens are not configured; set SPENDING_TOKEN_ROOT_KEY');
+    }
+
+    const id = crypto.randomUUID();
+    const caveats = [formatCaveat('account', options.accountId)];
+
+    if (options.maxAmount !== undefined) {
+      caveats.push(formatCaveat('max_amount', options.maxAmount.toString()));
+    }
+    if (options.dailyBudget !== undefined) {
+      caveats.push(formatCaveat('daily_budget', options.dailyBudget.toString()));
+    }
+    if (options.routes && options.routes.length > 0) {
+      caveats.push(formatCaveat('routes', options.routes.join('|')));
+    }
+    if (options.expiresAt) {
+      caveats.push(formatCaveat('expires', Math.floor(options.expiresAt.getTime() / 1000)));
+    }
+
+    logger.info(`Minted spending token ${id} for account ${options.accountId}`);
+
+    return { id, token: mintSpendingToken(rootKey, id, caveats), caveats };
+  }
+
+  /**
+   * Verify a token presented with a request. Returns null if the token is invalid, expired,
+   * not allowed to make this request, or carries caveats that contradict each other.
+   */
+  authenticate(token: string, method: string, path: string): ApiKeyPrincipal | null {
+    const rootKey = this.getRootKey();
+    const verified = rootKey ? verifySpendingToken(rootKey, token) : null;
+    if (!verified) {
+      return null;
+    }
+
+    const claims: SpendingTokenClaims = {
+      id: verified.id,
+      accountId: '',
+      maxAmount: null,
+      dailyBudget: null,
+      expiresAt: null
+    };
+
+    if (!SPENDING_TOKEN_ROUTES.some(route => matchesRoute(route, method, path))) {
+      return null;
+    }
+
+    // Every caveat must hold; repeated caveats can only narrow the limits
+    for (const { name, value } of verified.caveats) {
+      switch (name) {
+        case 'account':
+          if (claims.accountId && claims.accountId !== value) {
+            return null;
+          }
+          claims.accountId = value;
+          break;
+        case 'max_amount':
+        case 'daily_budget': {
+          if (!/^\d+$/.test(value)) {
+            return null;
+          }
+          const limit = BigInt(value);
+          const key = name === 'max_amount' ? 'maxAmount' : 'dailyBudget';
+          const current = claims[key];
+          claims[key] = current === null || limit < current ? limit : current;
+          break;
+        }
+        case 'routes':
+          if (!value.split('|').some(route => matchesRoute(route, method, path))) {
+            return null;
+          }
+          break;
+        case 'expires': {
+          if (!/^\d+$/.test(value)) {
+            return null;
+          }
+          const expiresAt = new Date(parseInt(value, 10) * 1000);
+          if (!claims.expiresAt || expiresAt < claims.expiresAt) {
+            claims.expiresAt = expiresAt;
+          }
+          break;
+        }
+      }
+    }
+
+    // A token that does not name its account could spend from any account
+    if (!claims.accountId || (claims.expiresAt && claims.expiresAt <= new Date())) {
+      return null;
+    }
+
+    return {
+      id: null,
+      name: `spending token ${claims.id}`,
+      scopes: [API_KEY_SCOPES.READ, API_KEY_SCOPES.PAYMENT_SEND],
+      accountIds: [claims.accountId],
+      spendingToken: claims
+    };
+  }
+
+  /**
+   * Check a payment against a token's limits and count it towards the daily budget.
+   * The amount is the most the payment can cost, including its fee limit.
+   * Returns a function that releases the payment from the budget if it is never sent.
+   */
+  async reservePayment(claims: SpendingTokenClaims, accountId: string, rHash: string, amount: bigint): Promise<() => Promise<void>> {
+    if (accountId !== claims.accountId) {
+      throw new ForbiddenError(`Spending token cannot spend from account ${accountId}`);
+    }
+
+    if (claims.maxAmount !== null && amount > claims.maxAmount) {
+      throw new ForbiddenError(`Payment of up to ${amount} sats including fees exceeds the token's maximum of ${claims.maxAmount} sats per payment`);
+    }
+
+    const spendId = await this.dbService.reserveSpendingTokenSpend(
+      { tokenId: claims.id, accountId, rHash, amount },
+      claims.dailyBudget,
+      new Date(Date.now() - BUDGET_WINDOW_MS)
+    );
+
+    return async () => {
+      await this.dbService.releaseSpendingTokenSpend(spendId);
+    };
+  }
+
+  private getRootKey(): string | null {
+    const rootKey = process.env.SPENDING_TOKEN_ROOT_KEY?.trim();
+    return rootKey || null;
+  }
+}
+
+export const spendingTokenService = new SpendingTokenService();
@@ -0,0 +1,244 @@
+import * as https from 'https';
+import * as http from 'http';
+import { IncomingMessage } from 'http';
+import { WebhookDeliveryStatus } from '@prisma/client';
+import { WebhookSummary, WebhookDeliverySummary } from '../models/interfaces';
+import { logger } from '../utils/logger';
+import { buildWebhookSignatureHeader, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_DELIVERY_HEADER } from '../utils/webhookSignature';
+import { DbService } from './dbService';
+
+/**
+ * Event types a webhook can subscribe to
+ */
+export const WEBHOOK_EVENTS = [
+  'invoice.created',
+  'invoice.updated',
+  'payment.completed',
+  'payment.failed',
+  'payment.blocked',
+  'transfer.completed'
+];
+
+/**
+ * Delivers webhook events from the webhook_deliveries table, retrying failed
+ * deliveries with exponential backoff until they succeed or are dead-lettered
+ */
+export class WebhookDeliveryService {
+  private dbService: DbService;
+  private interval: NodeJS.Timeout | null = null;
+  private processing = false;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+  private readonly LEASE_MS = 60000;
+  private readonly REQUEST_TIMEOUT_MS = 10000;
+  private readonly BATCH_SIZE = 50;
+
+  constructor() {
+    this.dbService = new DbService();
+    this.maxAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+    this.retryBaseMs = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10) * 1000;
+    this.retryMaxMs = parseInt(process.env.WEBHOOK_RETRY_MAX_SECONDS || '21600', 10) * 1000;
+  }
+
+  /**
+   * Queue an event for a webhook and make the first attempt straight away
+   */
+  async enqueue(webhook: WebhookSummary, event: string, data: any): Promise<WebhookDeliverySummary> {
+    const payload = JSON.stringify({
+      event,
+      data,
+      timestamp: new Date().toISOString()
+    });
+
+    const delivery = await this.dbService.createWebhookDelivery(webhook.id, event, payload);
+
+    // Retries are picked up by the worker, so a failed first attempt is not an error here
+    this.attempt(delivery.id).catch(error => {
+      logger.error(`Error delivering webhook ${delivery.id}:`, error);
+    });
+
+    return delivery;
+  }
+
+  /**
+   * Put a delivery back in the queue with a fresh set of attempts and send it now
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDeliverySummary> {
+    const delivery = await this.dbService.resetWebhookDelivery(deliveryId);
+    const attempted = await this.attempt(deliveryId);
+    return attempted || delivery;
+  }
+
+  /**
+   * Attempt a due delivery. Returns null if another worker claimed it first.
+   */
+  async attempt(deliveryId: string): Promise<WebhookDeliverySummary | null> {
+    const claimed = await this.dbService.claimWebhookDelivery(deliveryId, new Date(Date.now() + this.LEASE_MS));
+    if (!claimed) {
+      return null;
+    }
+
+    const delivery = await this.dbService.getWebhookDeliveryById(deliveryId);
+    const webhook = delivery ? await this.dbService.getWebhookById(delivery.webhookId) : null;
+    if (!delivery || !webhook) {
+      return null;
+    }
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      statusCode = await this.post(webhook, delivery);
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver responded with HTTP ${statusCode}`;
+      }
+    } catch (err: unknown) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+
+    if (!error) {
+      logger.debug(`Delivered ${delivery.event} webhook ${delivery.id} to ${webhook.url}`);
+      return this.dbService.recordWebhookDeliveryAttempt(deliveryId, {
+        status: WebhookDeliveryStatus.DELIVERED,
+        attempts,
+        nextAttemptAt: new Date(now),
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(now)
+      });
+    }
+
+    if (attempts >= this.maxAttempts) {
+      logger.error(`Giving up on ${delivery.event} webhook ${delivery.id} to ${webhook.url} after ${attempts} attempts: ${error}`);
+      return this.dbService.recordWebhookDeliveryAttempt(deliveryId, {
+        status: WebhookDeliveryStatus.DEAD,
+        attempts,
+        nextAttemptAt: new Date(now),
+        lastStatusCode: statusCode,
+        lastError: error,
+        deliveredAt: null
+      });
+    }
+
+    const delay = this.getRetryDelay(attempts);
+    logger.warn(`Webhook ${delivery.id} to ${webhook.url} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${delay}ms: ${error}`);
+
+    return this.dbService.recordWebhookDeliveryAttempt(deliveryId, {
+      status: WebhookDeliveryStatus.PENDING,
+      attempts,
+      nextAttemptAt: new Date(now + delay),
+      lastStatusCode: statusCode,
+      lastError: error,
+      deliveredAt: null
+    });
+  }
+
+  /**
+   * Delay before the next attempt, doubling after every failure
+   */
+  private getRetryDelay(attempts: number): number {
+    return Math.min(this.retryBaseMs * Math.pow(2, attempts - 1), this.retryMaxMs);
+  }
+
+  /**
+   * POST a delivery to its webhook and resolve with the HTTP status code
+   */
+  private post(webhook: WebhookSummary, delivery: WebhookDeliverySummary): Promise<number> {
+    const url = new URL(webhook.url);
+    const requestData = JSON.stringify(delivery.payload);
+
+    // Sign with the previous secret as well while a rotation is in progress
+    const secrets = [webhook.secret];
+    if (webhook.previousSecret && webhook.previousSecretExpiresAt && webhook.previousSecretExpiresAt > new Date()) {
+      secrets.push(webhook.previousSecret);
+    }
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = buildWebhookSignatureHeader(secrets, timestamp, delivery.id, requestData);
+
+    return new Promise<number>((resolve, reject) => {
+      // Choose the appropriate request module based on the URL protocol
+      const requestModule = url.protocol === 'https:' ? https : http;
+
+      const req = requestModule.request({
+        hostname: url.hostname,
+        port: url.port || (url.protocol === 'https:' ? 443 : 80),
+        path: url.pathname + url.search,
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestData),
+          [WEBHOOK_SIGNATURE_HEADER]: signature,
+          'X-Webhook-Event': delivery.event,
+          [WEBHOOK_DELIVERY_HEADER]: delivery.id
+        }
+      }, (res: IncomingMessage) => {
+        // Drain the response so the socket is released
+        res.resume();
+        res.on('end', () => resolve(res.statusCode || 0));
+      });
+
+      req.setTimeout(this.REQUEST_TIMEOUT_MS, () => {
+        req.destroy(new Error(`Timed out after ${this.REQUEST_TIMEOUT_MS}ms`));
+      });
+
+      req.on('error', (error: Error) => reject(error));
+
+      req.write(requestData);
+      req.end();
+    });
+  }
+
+  /**
+   * Attempt every delivery that is due
+   */
+  private async processDueDeliveries(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const ids = await this.dbService.getDueWebhookDeliveryIds(this.BATCH_SIZE);
+
+      for (const id of ids) {
+        await this.attempt(id);
+      }
+    } catch (error) {
+      logger.error('Error processing webhook deliveries:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Start the retry worker
+   */
+  start(intervalMs = 5000): void {
+    if (this.interval) {
+      return; // Already running
+    }
+
+    logger.info(`Starting webhook delivery worker (interval: ${intervalMs}ms, max attempts: ${this.maxAttempts})`);
+
+    this.interval = setInterval(() => {
+      this.processDueDeliveries();
+    }, intervalMs);
+  }
+
+  /**
+   * Stop the retry worker
+   */
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+      logger.info('Stopped webhook delivery worker');
+    }
+  }
+}
+
+export const webhookDeliveryService = new WebhookDeliveryService();
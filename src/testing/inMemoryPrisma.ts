@@ -0,0 +1,352 @@
+import * as crypto from 'crypto';
+
+type Row = Record<string, any>;
+
+type TableName =
+  | 'accounts'
+  | 'lightningTransactions'
+  | 'journalEntries'
+  | 'postings'
+  | 'accountBalances'
+  | 'spendingPolicies'
+  | 'transfers';
+
+/**
+ * Column defaults, mirroring prisma/schema.prisma for the columns the ledger code reads
+ */
+const DEFAULTS: Record<TableName, () => Row> = {
+  accounts: () => ({
+    description: null, externalId: null, metadata: null, tags: [], kind: 'USER', status: 'ACTIVE',
+    closedAt: null, parentId: null, parentSpendLimit: null
+  }),
+  lightningTransactions: () => ({ fee: '0', feeReserve: '0', feeAccountId: null, memo: null, failureReason: null, expiresAt: null, parentDrawId: null }),
+  journalEntries: () => ({ transactionId: null, transferId: null, memo: null }),
+  postings: () => ({}),
+  accountBalances: () => ({ balance: BigInt(0) }),
+  spendingPolicies: () => ({
+    maxPaymentAmount: null, dailyLimit: null, weeklyLimit: null, maxPaymentsPerHour: null,
+    allowedDestinations: [], blockedDestinations: []
+  }),
+  transfers: () => ({ memo: null, idempotencyKey: null, kind: 'STANDARD' })
+};
+
+// Tables keyed by accountId rather than a generated id
+const ACCOUNT_KEYED: TableName[] = ['accountBalances', 'spendingPolicies'];
+
+const OPERATORS = ['in', 'gte', 'gt', 'lte', 'lt', 'not'];
+
+interface TransactionState {
+  owner: symbol;
+  undo: Array<() => void>;
+}
+
+/**
+ * Lets other pending operations run, so concurrent transactions interleave the way they would against a database
+ */
+const tick = () => new Promise<void>(resolve => setImmediate(resolve));
+
+/**
+ * An in-memory stand-in for the Prisma client, covering the model operations and the few raw
+ * queries the ledger and payment code uses. Interactive transactions roll back on error and
+ * `SELECT ... FOR UPDATE` takes a row lock held until the transaction ends.
+ *
+ * Raw queries are recognised by pattern and answered by JavaScript that mirrors them (pending
+ * totals, spending since a time). Tests built on it check the service code around those queries,
+ * such as which locks are taken before a balance check, not the SQL: the locking and sum queries
+ * themselves are only exercised against PostgreSQL.
+ */
+export class InMemoryPrisma {
+  readonly tables: Record<TableName, Row[]> = {
+    accounts: [],
+    lightningTransactions: [],
+    journalEntries: [],
+    postings: [],
+    accountBalances: [],
+    spendingPolicies: [],
+    transfers: []
+  };
+
+  readonly client: any;
+  private lockOwners = new Map<string, symbol>();
+  private lockWaiters: Array<() => void> = [];
+
+  constructor() {
+    this.client = {
+      ...this.createClient(null),
+      $transaction: (callback: (tx: any) => Promise<unknown>) => this.transaction(callback)
+    };
+  }
+
+  /**
+   * Adds a row directly, filling in column defaults
+   */
+  insert(table: TableName, data: Row): Row {
+    const now = new Date();
+    const row: Row = {
+      ...(ACCOUNT_KEYED.includes(table) ? {} : { id: crypto.randomUUID() }),
+      ...DEFAULTS[table](),
+      createdAt: now,
+      updatedAt: now,
+      ...data
+    };
+    this.tables[table].push(row);
+    return row;
+  }
+
+  /**
+   * Each account's balance summed from its postings, to compare with the maintained balances
+   */
+  postingBalances(): Map<string, bigint> {
+    const balances = new Map<string, bigint>();
+    for (const posting of this.tables.postings) {
+      const signed = posting.side === 'CREDIT' ? posting.amount : -posting.amount;
+      balances.set(posting.accountId, (balances.get(posting.accountId) || BigInt(0)) + signed);
+    }
+    return balances;
+  }
+
+  private async transaction<T>(callback: (tx: any) => Promise<T>): Promise<T> {
+    const state: TransactionState = { owner: Symbol('transaction'), undo: [] };
+
+    try {
+      return await callback(this.createClient(state));
+    } catch (error) {
+      for (const undo of state.undo.reverse()) {
+        undo();
+      }
+      throw error;
+    } finally {
+      this.releaseLocks(state.owner);
+    }
+  }
+
+  private async lock(state: TransactionState | null, key: string): Promise<void> {
+    if (!state) {
+      return;
+    }
+
+    while (this.lockOwners.has(key) && this.lockOwners.get(key) !== state.owner) {
+      await new Promise<void>(resolve => this.lockWaiters.push(resolve));
+    }
+    this.lockOwners.set(key, state.owner);
+  }
+
+  private releaseLocks(owner: symbol): void {
+    for (const [key, holder] of this.lockOwners) {
+      if (holder === owner) {
+        this.lockOwners.delete(key);
+      }
+    }
+
+    const waiters = this.lockWaiters;
+    this.lockWaiters = [];
+    waiters.forEach(wake => wake());
+  }
+
+  private createClient(state: TransactionState | null): any {
+    return {
+      account: this.delegate('accounts', state),
+      lightningTransaction: this.delegate('lightningTransactions', state),
+      journalEntry: this.delegate('journalEntries', state),
+      posting: this.delegate('postings', state),
+      accountBalance: this.delegate('accountBalances', state),
+      spendingPolicy: this.delegate('spendingPolicies', state),
+      transfer: this.delegate('transfers', state),
+      $queryRaw: (strings: TemplateStringsArray, ...values: unknown[]) => this.raw(state, strings.join('?'), values),
+      $executeRaw: (strings: TemplateStringsArray, ...values: unknown[]) => this.raw(state, strings.join('?'), values)
+    };
+  }
+
+  private delegate(table: TableName, state: TransactionState | null) {
+    const rows = this.tables[table];
+    const find = (where: Row = {}) => rows.filter(row => this.matches(table, row, where));
+
+    const create = (data: Row): Row => {
+      const { postings, ...columns } = data;
+      const row = this.insert(table, columns);
+      state?.undo.push(() => rows.splice(rows.indexOf(row), 1));
+
+      if (table === 'journalEntries' && postings) {
+        for (const posting of postings.create) {
+          const created = this.insert('postings', { ...posting, journalEntryId: row.id });
+          state?.undo.push(() => this.tables.postings.splice(this.tables.postings.indexOf(created), 1));
+        }
+      }
+
+      return row;
+    };
+
+    const update = (row: Row, data: Row): Row => {
+      const previous = { ...row };
+      state?.undo.push(() => Object.assign(row, previous));
+      return Object.assign(row, data, { updatedAt: new Date() });
+    };
+
+    const result = (row: Row | undefined, args: Row = {}): Row | null => {
+      if (!row) {
+        return null;
+      }
+      return args.include?.postings
+        ? { ...row, postings: this.tables.postings.filter(posting => posting.journalEntryId === row.id).map(posting => ({ ...posting })) }
+        : { ...row };
+    };
+
+    const sorted = (matched: Row[], orderBy?: Row): Row[] => {
+      if (!orderBy) {
+        return matched;
+      }
+      const [field, order] = Object.entries(orderBy)[0] as [string, 'asc' | 'desc'];
+      return [...matched].sort((a, b) => (a[field] < b[field] ? -1 : a[field] > b[field] ? 1 : 0) * (order === 'desc' ? -1 : 1));
+    };
+
+    return {
+      findUnique: async (args: Row) => {
+        await tick();
+        return result(find(args.where)[0], args);
+      },
+      findUniqueOrThrow: async (args: Row) => {
+        await tick();
+        const row = find(args.where)[0];
+        if (!row) {
+          throw new Error(`No ${table} row matches ${JSON.stringify(args.where)}`);
+        }
+        return result(row, args);
+      },
+      findFirst: async (args: Row = {}) => {
+        await tick();
+        return result(sorted(find(args.where), args.orderBy)[0], args);
+      },
+      findMany: async (args: Row = {}) => {
+        await tick();
+        return sorted(find(args.where), args.orderBy).map(row => result(row, args));
+      },
+      count: async (args: Row = {}) => {
+        await tick();
+        return find(args.where).length;
+      },
+      create: async (args: Row) => {
+        await tick();
+        return result(create(args.data), args);
+      },
+      update: async (args: Row) => {
+        await tick();
+        const row = find(args.where)[0];
+        if (!row) {
+          throw new Error(`No ${table} row matches ${JSON.stringify(args.where)}`);
+        }
+        return result(update(row, args.data), args);
+      },
+      updateMany: async (args: Row) => {
+        await tick();
+        const matched = find(args.where);
+        matched.forEach(row => update(row, args.data));
+        return { count: matched.length };
+      },
+      upsert: async (args: Row) => {
+        await tick();
+        const row = find(args.where)[0];
+        return result(row ? update(row, args.update) : create(args.create), args);
+      }
+    };
+  }
+
+  private matches(table: TableName, row: Row, where: Row): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+      if (table === 'postings' && key === 'journalEntry') {
+        const entry = this.tables.journalEntries.find(candidate => candidate.id === row.journalEntryId);
+        return !!entry && this.matches('journalEntries', entry, condition);
+      }
+
+      if (condition !== null && typeof condition === 'object' && !(condition instanceof Date) && !Array.isArray(condition)) {
+        const keys = Object.keys(condition);
+        if (keys.every(op => OPERATORS.includes(op))) {
+          return keys.every(op => this.compare(row[key], op, condition[op]));
+        }
+        // Compound unique key such as rHash_type
+        return this.matches(table, row, condition);
+      }
+
+      return row[key] === condition;
+    });
+  }
+
+  private compare(value: any, op: string, operand: any): boolean {
+    // As in SQL, null is neither greater nor less than anything
+    if (op !== 'in' && op !== 'not' && value === null) {
+      return false;
+    }
+    switch (op) {
+      case 'in': return operand.includes(value);
+      case 'gte': return value >= operand;
+      case 'gt': return value > operand;
+      case 'lte': return value <= operand;
+      case 'lt': return value < operand;
+      default: return value !== operand;
+    }
+  }
+
+  /**
+   * Emulates the raw statements the ledger and payment code runs
+   */
+  private async raw(state: TransactionState | null, sql: string, values: unknown[]): Promise<any> {
+    await tick();
+
+    if (/FROM "accounts" WHERE "id" = \? FOR UPDATE/.test(sql)) {
+      const id = values[0] as string;
+      await this.lock(state, `accounts:${id}`);
+      return this.tables.accounts.some(account => account.id === id) ? [{ id }] : [];
+    }
+
+    if (/INSERT INTO "account_balances"/.test(sql)) {
+      const [accountId, amount] = values as [string, bigint];
+      const row = this.tables.accountBalances.find(balance => balance.accountId === accountId);
+      const increment = /"balance" \+ EXCLUDED/.test(sql);
+      if (row) {
+        const previous = row.balance;
+        state?.undo.push(() => { row.balance = previous; });
+        row.balance = increment ? row.balance + amount : amount;
+      } else {
+        const created = this.insert('accountBalances', { accountId, balance: amount });
+        state?.undo.push(() => this.tables.accountBalances.splice(this.tables.accountBalances.indexOf(created), 1));
+      }
+      return 1;
+    }
+
+    if (/FROM "lightning_transactions"/.test(sql) && /"status" = 'PENDING'/.test(sql) && /GROUP BY "type"/.test(sql)) {
+      return this.pendingTotals(values[0] as string);
+    }
+
+    if (/FROM "lightning_transactions"/.test(sql) && /"status" <> 'FAILED'/.test(sql)) {
+      return [{ total: this.spentSince(values[0] as string, values[1] as Date) }];
+    }
+
+    throw new Error(`InMemoryPrisma does not support this query: ${sql}`);
+  }
+
+  private pendingTotals(accountId: string): Array<{ type: string; total: bigint }> {
+    const totals = new Map<string, bigint>();
+    for (const transaction of this.tables.lightningTransactions) {
+      if (transaction.status !== 'PENDING') {
+        continue;
+      }
+      const amount = transaction.accountId === accountId ? BigInt(transaction.amount) : BigInt(0);
+      const reserve = transaction.type === 'OUTGOING' && (transaction.feeAccountId || transaction.accountId) === accountId
+        ? BigInt(transaction.feeReserve)
+        : BigInt(0);
+      if (amount + reserve > BigInt(0)) {
+        totals.set(transaction.type, (totals.get(transaction.type) || BigInt(0)) + amount + reserve);
+      }
+    }
+    return Array.from(totals, ([type, total]) => ({ type, total }));
+  }
+
+  private spentSince(accountId: string, since: Date): bigint {
+    return this.tables.lightningTransactions
+      .filter(transaction => transaction.accountId === accountId && transaction.type === 'OUTGOING' &&
+        transaction.status !== 'FAILED' && transaction.createdAt >= since)
+      .reduce((total, transaction) => {
+        const fee = transaction.feeAccountId ? '0' : transaction.status === 'COMPLETE' ? transaction.fee : transaction.feeReserve;
+        return total + BigInt(transaction.amount) + BigInt(fee);
+      }, BigInt(0));
+  }
+}
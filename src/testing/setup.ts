@@ -0,0 +1,4 @@
+import { logger } from '../utils/logger';
+
+// Keep test output readable; tests assert on behaviour, not log lines
+logger.silent = true;
@@ -13,10 +13,37 @@ declare namespace NodeJS {
     LND_TLS_CERT_PATH?: string;
     USER_IDENTIFIER_PATTERN?: string;
     API_KEY?: string;
+    AUTH_MODE?: string;
+    SPENDING_TOKEN_ROOT_KEY?: string;
+    FEE_SPONSOR_ACCOUNT?: string;
+    DEFAULT_FEE_LIMIT_PERCENT?: string;
+    MIN_FEE_LIMIT_SATS?: string;
+    PAYMENT_TIMEOUT_SECONDS?: string;
+    RECONCILE_INTERVAL_MINUTES?: string;
+    RECONCILE_AUTO_REPAIR?: string;
+    PAYMENT_ATTRIBUTION_RULES?: string;
+    PAYMENT_BACKFILL?: string;
+    WEBHOOK_MAX_ATTEMPTS?: string;
+    WEBHOOK_RETRY_BASE_SECONDS?: string;
+    WEBHOOK_RETRY_MAX_SECONDS?: string;
+    EVENT_LOG_RETENTION_DAYS?: string;
+    IDEMPOTENCY_KEY_TTL_HOURS?: string;
+    IDEMPOTENCY_LEASE_SECONDS?: string;
+    BALANCE_VERIFY_INTERVAL_MINUTES?: string;
+    BALANCE_AUTO_REPAIR?: string;
+    BALANCE_SNAPSHOT_INTERVAL_MINUTES?: string;
     [key: string]: string | undefined;
   }
 }
 
+// Express request extension
+declare namespace Express {
+  interface Request {
+    // API key the request was authenticated with; undefined while authentication is disabled
+    apiKey?: import('../models/interfaces').ApiKeyPrincipal;
+  }
+}
+
 // Error constructor extension
 interface ErrorConstructor {
   captureStackTrace(targetObject: object, constructorOpt?: Function): void;
@@ -32,6 +32,9 @@ export interface LndInvoice {
   fallback_addr: string;
   cltv_expiry: string | number;
   state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+  add_index?: string;
+  settle_index?: string;
+  amt_paid_sat?: string | number;
 }
 
 export interface LndInvoicesResponse {
@@ -46,14 +49,37 @@ export interface LndPayment {
   value_sat: string | number;
   value_msat: string | number;
   payment_request: string;
-  status: 'UNKNOWN' | 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
+  payment_preimage: string;
+  status: 'UNKNOWN' | 'INITIATED' | 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
   creation_date: string | number;
   fee: string | number;
   fee_sat: string | number;
   fee_msat: string | number;
   creation_time_ns: string;
-  htlcs: any[]; // Detailed HTLC data structure
+  htlcs: LndHtlcAttempt[];
   path: string[];
+  payment_index: string;
+  failure_reason: 'FAILURE_REASON_NONE' | 'FAILURE_REASON_TIMEOUT' | 'FAILURE_REASON_NO_ROUTE' | 'FAILURE_REASON_ERROR' |
+    'FAILURE_REASON_INCORRECT_PAYMENT_DETAILS' | 'FAILURE_REASON_INSUFFICIENT_BALANCE' | string;
+}
+
+export interface LndHtlcAttempt {
+  attempt_id: string;
+  status: 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
+  route: LndRoute;
+  attempt_time_ns: string;
+  resolve_time_ns: string;
+  failure?: {
+    code: string;
+    failure_source_index: number;
+  };
+}
+
+export interface LndSendPaymentV2Request {
+  payment_request: string;
+  fee_limit_sat: string;
+  timeout_seconds: number;
+  no_inflight_updates?: boolean;
 }
 
 export interface LndPaymentsResponse {
@@ -88,9 +114,18 @@ export interface LndDecodedPaymentRequest {
   route_hints: any[];
 }
 
+export interface LndRoute {
+  total_time_lock: number;
+  total_fees: string | number;
+  total_amt: string | number;
+  hops: any[];
+  total_fees_msat: string | number;
+  total_amt_msat: string | number;
+}
+
 export interface LndSendPaymentResponse {
   payment_error: string;
   payment_preimage: string;
-  payment_route: any;
+  payment_route: LndRoute | null;
   payment_hash: string;
 } 
\ No newline at end of file
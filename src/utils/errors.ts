@@ -47,6 +47,16 @@ export class InvoiceError extends AppError {
   }
 }
 
+/**
+ * Error class for ledger invariant violations
+ */
+export class LedgerError extends AppError {
+  constructor(message: string) {
+    super(message, 500);
+    Object.setPrototypeOf(this, LedgerError.prototype);
+  }
+}
+
 /**
  * Error class for LND API-related errors
  */
@@ -124,6 +134,22 @@ export class ForbiddenError extends AppError {
   }
 }
 
+/**
+ * 403 Forbidden - Used when a payment breaks its account's spending policy
+ */
+export class SpendingPolicyError extends ForbiddenError {
+  rule: string;
+
+  constructor(rule: string, message: string) {
+    super(message);
+    this.name = 'SpendingPolicyError';
+    this.rule = rule;
+    
+    // Ensure proper prototype chain
+    Object.setPrototypeOf(this, SpendingPolicyError.prototype);
+  }
+}
+
 /**
  * 404 Not Found - Used when a resource is not found
  */
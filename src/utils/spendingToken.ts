@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+
+/**
+ * Delegated spending tokens, built like LND's macaroons.
+ *
+ * A token is an identifier, a list of caveats and a signature:
+ *   sig0 = HMAC-SHA256(rootKey, id)
+ *   sigN = HMAC-SHA256(sigN-1, caveatN)
+ *
+ * Anyone holding a token can attenuate it by appending a caveat and chaining the signature,
+ * but removing or changing a caveat requires the root key. Every caveat must hold for the
+ * token to be accepted, so appending caveats can only narrow what a token allows.
+ *
+ * Caveats are "name=value" strings:
+ *   account=<account ID>              spend from this account only
+ *   max_amount=<sats>                 largest single payment, including its fee limit
+ *   daily_budget=<sats>               total payments and fee limits in any 24 hours
+ *   routes=<METHOD /path>|<...>       requests the token may make; ":param" matches one path segment
+ *   expires=<unix seconds>            token is rejected from this time on
+ *
+ * This file only depends on Node's crypto module so clients can copy it to attenuate tokens.
+ */
+
+export const SPENDING_TOKEN_PREFIX = 'lndt_';
+
+export const SPENDING_TOKEN_CAVEATS = ['account', 'max_amount', 'daily_budget', 'routes', 'expires'] as const;
+
+export type SpendingTokenCaveatName = typeof SPENDING_TOKEN_CAVEATS[number];
+
+export interface SpendingTokenCaveat {
+  name: SpendingTokenCaveatName;
+  value: string;
+}
+
+interface EncodedSpendingToken {
+  id: string;
+  caveats: string[];
+  signature: string;
+}
+
+/**
+ * Formats a caveat as it is stored in a token
+ */
+export function formatCaveat(name: SpendingTokenCaveatName, value: string | number): string {
+  return `${name}=${value}`;
+}
+
+/**
+ * Parses a caveat, returning null for malformed or unknown caveats
+ */
+export function parseCaveat(caveat: string): SpendingTokenCaveat | null {
+  const separator = caveat.indexOf('=');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const name = caveat.slice(0, separator) as SpendingTokenCaveatName;
+  const value = caveat.slice(separator + 1);
+
+  if (!SPENDING_TOKEN_CAVEATS.includes(name) || value === '') {
+    return null;
+  }
+
+  return { name, value };
+}
+
+function chainSignature(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function encode(token: EncodedSpendingToken): string {
+  return `${SPENDING_TOKEN_PREFIX}${Buffer.from(JSON.stringify(token)).toString('base64url')}`;
+}
+
+/**
+ * Decodes a token without verifying it. Returns null if it is not a well-formed token.
+ */
+export function decodeSpendingToken(token: string): EncodedSpendingToken | null {
+  if (!token.startsWith(SPENDING_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(token.slice(SPENDING_TOKEN_PREFIX.length), 'base64url').toString('utf8'));
+
+    if (typeof decoded?.id !== 'string' || typeof decoded.signature !== 'string' ||
+        !Array.isArray(decoded.caveats) || decoded.caveats.some((caveat: unknown) => typeof caveat !== 'string')) {
+      return null;
+    }
+
+    return { id: decoded.id, caveats: decoded.caveats, signature: decoded.signature };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mints a token signed with the root key
+ */
+export function mintSpendingToken(rootKey: string, id: string, caveats: string[]): string {
+  let signature = chainSignature(rootKey, id);
+  for (const caveat of caveats) {
+    signature = chainSignature(signature, caveat);
+  }
+
+  return encode({ id, caveats, signature: signature.toString('hex') });
+}
+
+/**
+ * Appends caveats to a token. No key is needed, and the result allows at most what the original did.
+ */
+export function attenuateSpendingToken(token: string, caveats: string[]): string {
+  const decoded = decodeSpendingToken(token);
+  if (!decoded) {
+    throw new Error('Not a spending token');
+  }
+
+  let signature = Buffer.from(decoded.signature, 'hex');
+  for (const caveat of caveats) {
+    signature = chainSignature(signature, caveat);
+  }
+
+  return encode({ id: decoded.id, caveats: [...decoded.caveats, ...caveats], signature: signature.toString('hex') });
+}
+
+/**
+ * Checks a token's signature chain against the root key and parses its caveats.
+ * Returns null if the signature does not match or any caveat is malformed or unknown.
+ * The caveats themselves still have to be checked by the caller.
+ */
+export function verifySpendingToken(rootKey: string, token: string): { id: string; caveats: SpendingTokenCaveat[] } | null {
+  const decoded = decodeSpendingToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  let expected = chainSignature(rootKey, decoded.id);
+  for (const caveat of decoded.caveats) {
+    expected = chainSignature(expected, caveat);
+  }
+
+  const received = Buffer.from(decoded.signature, 'hex');
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  const caveats: SpendingTokenCaveat[] = [];
+  for (const caveat of decoded.caveats) {
+    const parsed = parseCaveat(caveat);
+    if (!parsed) {
+      return null;
+    }
+    caveats.push(parsed);
+  }
+
+  return { id: decoded.id, caveats };
+}
+
+/**
+ * Checks whether a request matches a route pattern such as "GET /api/accounts/:id/balance"
+ */
+export function matchesRoute(pattern: string, method: string, path: string): boolean {
+  const [patternMethod, patternPath] = pattern.trim().split(/\s+/, 2);
+  if (!patternPath || (patternMethod !== '*' && patternMethod.toUpperCase() !== method.toUpperCase())) {
+    return false;
+  }
+
+  const patternSegments = patternPath.replace(/\/+$/, '').split('/');
+  const pathSegments = path.replace(/\/+$/, '').split('/');
+
+  return patternSegments.length === pathSegments.length &&
+    patternSegments.every((segment, i) => segment.startsWith(':') || segment === pathSegments[i]);
+}
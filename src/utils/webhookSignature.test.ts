@@ -0,0 +1,58 @@
+import { buildWebhookSignatureHeader, computeWebhookSignature, verifyWebhookSignature } from './webhookSignature';
+
+const OLD_SECRET = 'whsec_old';
+const NEW_SECRET = 'whsec_new';
+const DELIVERY_ID = 'delivery-1';
+const BODY = '{"event":"invoice.updated"}';
+const NOW = 1720692000;
+
+describe('webhook signatures', () => {
+  it('signs with one v1 value per active secret', () => {
+    const header = buildWebhookSignatureHeader([OLD_SECRET, NEW_SECRET], NOW, DELIVERY_ID, BODY);
+
+    expect(header).toBe([
+      `t=${NOW}`,
+      `v1=${computeWebhookSignature(OLD_SECRET, NOW, DELIVERY_ID, BODY)}`,
+      `v1=${computeWebhookSignature(NEW_SECRET, NOW, DELIVERY_ID, BODY)}`
+    ].join(','));
+  });
+
+  it('verifies a rotating delivery with either the old or the new secret', () => {
+    const signatureHeader = buildWebhookSignatureHeader([OLD_SECRET, NEW_SECRET], NOW, DELIVERY_ID, BODY);
+    const delivery = { body: BODY, signatureHeader, deliveryId: DELIVERY_ID, now: NOW };
+
+    expect(verifyWebhookSignature({ ...delivery, secrets: OLD_SECRET })).toBe(true);
+    expect(verifyWebhookSignature({ ...delivery, secrets: NEW_SECRET })).toBe(true);
+    expect(verifyWebhookSignature({ ...delivery, secrets: 'whsec_other' })).toBe(false);
+  });
+
+  it('verifies deliveries signed before and after the rotation while the receiver holds both secrets', () => {
+    const secrets = [OLD_SECRET, NEW_SECRET];
+    const before = buildWebhookSignatureHeader([OLD_SECRET], NOW, DELIVERY_ID, BODY);
+    const after = buildWebhookSignatureHeader([NEW_SECRET], NOW, DELIVERY_ID, BODY);
+
+    expect(verifyWebhookSignature({ body: BODY, signatureHeader: before, deliveryId: DELIVERY_ID, secrets, now: NOW })).toBe(true);
+    expect(verifyWebhookSignature({ body: BODY, signatureHeader: after, deliveryId: DELIVERY_ID, secrets, now: NOW })).toBe(true);
+  });
+
+  it('rejects a signature moved to another body, delivery or timestamp', () => {
+    const signatureHeader = buildWebhookSignatureHeader([OLD_SECRET, NEW_SECRET], NOW, DELIVERY_ID, BODY);
+    const v1 = signatureHeader.split(',').slice(1).join(',');
+    const secrets = [OLD_SECRET, NEW_SECRET];
+
+    expect(verifyWebhookSignature({ body: '{"event":"payment.updated"}', signatureHeader, deliveryId: DELIVERY_ID, secrets, now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ body: BODY, signatureHeader, deliveryId: 'delivery-2', secrets, now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ body: BODY, signatureHeader: `t=${NOW + 60},${v1}`, deliveryId: DELIVERY_ID, secrets, now: NOW + 60 })).toBe(false);
+  });
+
+  it('rejects stale timestamps and headers without a timestamp or signature', () => {
+    const signatureHeader = buildWebhookSignatureHeader([NEW_SECRET], NOW, DELIVERY_ID, BODY);
+    const delivery = { body: BODY, deliveryId: DELIVERY_ID, secrets: NEW_SECRET };
+
+    expect(verifyWebhookSignature({ ...delivery, signatureHeader, now: NOW + 301 })).toBe(false);
+    expect(verifyWebhookSignature({ ...delivery, signatureHeader, now: NOW + 301, toleranceSeconds: 600 })).toBe(true);
+    expect(verifyWebhookSignature({ ...delivery, signatureHeader: signatureHeader.replace(/^t=\d+,/, ''), now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ ...delivery, signatureHeader: `t=${NOW}`, now: NOW })).toBe(false);
+    expect(verifyWebhookSignature({ ...delivery, signatureHeader: undefined, now: NOW })).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import * as crypto from 'crypto';
+
+/**
+ * Webhook signing and verification.
+ *
+ * Every delivery carries:
+ *   X-Webhook-Delivery:  <delivery ID>
+ *   X-Webhook-Signature: t=<unix timestamp>,v1=<hex HMAC-SHA256>[,v1=<hex HMAC-SHA256>]
+ *
+ * Each v1 value is an HMAC of `${timestamp}.${deliveryId}.${body}` with one of the webhook's
+ * secrets; while a secret is being rotated there is one v1 value per active secret.
+ * This file only depends on Node's crypto module so receivers can copy or import it as-is.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * Default number of seconds a signed timestamp is accepted for
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * Generates a random webhook secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString('hex')}`;
+}
+
+/**
+ * Computes the signature of a delivery body for one secret
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, deliveryId: string, body: string | Buffer): string {
+  const hmac = crypto.createHmac('sha256', secret);
+  hmac.update(`${timestamp}.${deliveryId}.`);
+  hmac.update(body);
+  return hmac.digest('hex');
+}
+
+/**
+ * Builds the X-Webhook-Signature header value, signing with every secret given
+ */
+export function buildWebhookSignatureHeader(secrets: string[], timestamp: number, deliveryId: string, body: string | Buffer): string {
+  const signatures = secrets.map(secret => `v1=${computeWebhookSignature(secret, timestamp, deliveryId, body)}`);
+  return [`t=${timestamp}`, ...signatures].join(',');
+}
+
+export interface VerifyWebhookSignatureOptions {
+  /** Raw request body, exactly as received */
+  body: string | Buffer;
+  /** Value of the X-Webhook-Signature header */
+  signatureHeader: string | undefined;
+  /** Value of the X-Webhook-Delivery header */
+  deliveryId: string | undefined;
+  /** The webhook secret; pass both the old and new secret while rotating */
+  secrets: string | string[];
+  /** How old a signed timestamp may be, in seconds */
+  toleranceSeconds?: number;
+  /** Current time in seconds, for testing */
+  now?: number;
+}
+
+/**
+ * Checks that a delivery was signed with one of the given secrets and that its timestamp is recent.
+ * To reject replays within the tolerance window as well, remember the delivery IDs you have
+ * processed for at least that long and ignore repeats.
+ */
+export function verifyWebhookSignature(options: VerifyWebhookSignatureOptions): boolean {
+  const { body, signatureHeader, deliveryId } = options;
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const secrets = Array.isArray(options.secrets) ? options.secrets : [options.secrets];
+
+  if (!signatureHeader || !deliveryId) {
+    return false;
+  }
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value || '')) {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || signatures.length === 0 || Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+
+  for (const secret of secrets.filter(Boolean)) {
+    const expected = Buffer.from(computeWebhookSignature(secret, timestamp, deliveryId, body), 'hex');
+
+    for (const signature of signatures) {
+      const received = Buffer.from(signature, 'hex');
+      if (received.length === expected.length && crypto.timingSafeEqual(received, expected)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}